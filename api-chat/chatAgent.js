@@ -0,0 +1,87 @@
+// Chat answered by an LLM provider that calls the MCP tools itself.
+// The model sees the tools the chat may call (read-only and quotes), asks
+// for any of them, gets their results back, and writes the final reply.
+// Tool failures are handed to the model as results, and when the tools cannot
+// be discovered the model answers without them; provider failures are thrown
+// so the caller can fall back to the rule engine.
+
+import { callableFromChat } from './mcpTools.js';
+
+// Model turns that may call tools before it must answer
+const MAX_TOOL_ROUNDS = 4;
+
+// Tool names both Gemini and OpenAI accept
+function providerToolName(name) {
+  return String(name).replace(/[^a-zA-Z0-9_-]/g, '_').replace(/^([^a-zA-Z_])/, '_$1').slice(0, 64);
+}
+
+function systemPrompt(locale, now, discovered) {
+  return [
+    'You are the insurance assistant of a vehicle insurance portal, talking to a signed-in customer.',
+    'Use the tools to look up the customer\'s vehicles, policies and quotes; never invent vehicles, policies or amounts.',
+    'You cannot buy, change or cancel policies; point the customer to the portal for that.',
+    `Today is ${now.toISOString().slice(0, 10)}. The customer's locale is ${locale}; format dates and amounts for it.`,
+    'Always state the currency of an amount, and never add up amounts in different currencies.',
+    'Reply in short markdown: headings, bullet lists and bold only, no HTML or tables.',
+    ...(discovered ? [] : ['The customer\'s data cannot be reached right now; say so for any question about their vehicles or policies.'])
+  ].join('\n');
+}
+
+// Run one chat turn: { text, toolResults: [{ tool, data, text } | { tool, error }] }
+export async function runAgent({ provider, session, prompt, history = [], locale, signal, onProgress = () => {}, now = new Date() }) {
+  let tools = [];
+  let discovered = false;
+  try {
+    tools = (await session.listTools({ signal })).filter(callableFromChat);
+    discovered = true;
+  } catch (e) {
+    if (signal?.aborted) throw e;
+    console.error('[AGENT] Tool discovery failed, answering without tools:', e.message);
+  }
+  const byProviderName = new Map(tools.map(tool => [providerToolName(tool.name), tool]));
+  const declarations = Array.from(byProviderName, ([name, tool]) => ({
+    name,
+    description: tool.description || tool.title || tool.name,
+    parameters: tool.inputSchema || { type: 'object', properties: {} }
+  }));
+
+  const messages = [
+    ...history.map(({ role, content }) => ({ role, content })),
+    { role: 'user', content: prompt }
+  ];
+  const system = systemPrompt(locale, now, discovered);
+  const toolResults = [];
+  const forward = (params) => params?.message && onProgress(params.message);
+
+  for (let round = 0; ; round++) {
+    // The last round offers no tools, so the model has to answer with what it has
+    const reply = await provider.chat({ system, messages, tools: round < MAX_TOOL_ROUNDS ? declarations : [], signal });
+    if (!reply.toolCalls?.length) {
+      if (!reply.text?.trim()) throw new Error(`${provider.name} returned an empty reply`);
+      return { text: reply.text, toolResults };
+    }
+
+    messages.push({ role: 'assistant', content: reply.text || '', toolCalls: reply.toolCalls });
+    for (const call of reply.toolCalls) {
+      const tool = byProviderName.get(call.name);
+      let content;
+      if (!tool) {
+        content = { error: `Unknown tool ${call.name}` };
+      } else {
+        const name = tool.title || tool.name;
+        onProgress(`Calling ${name}...`);
+        try {
+          const result = await session.callTool(tool.name, call.arguments, { signal, onProgress: forward });
+          toolResults.push({ tool: name, data: result.data, text: result.text });
+          content = result.data ?? result.text;
+        } catch (e) {
+          if (signal?.aborted) throw e;
+          console.error(`[AGENT] Tool ${tool.name} failed:`, e.message);
+          toolResults.push({ tool: name, error: e.message });
+          content = { error: e.message };
+        }
+      }
+      messages.push({ role: 'tool', toolCallId: call.id, name: call.name, content: JSON.stringify(content) });
+    }
+  }
+}
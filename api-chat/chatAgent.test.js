@@ -0,0 +1,123 @@
+// runAgent with the stub provider and an in-memory MCP session, and the tool choice it relies on: runs offline with `npm test`
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { runAgent } from './chatAgent.js';
+import { createStubProvider } from './llmProviders.js';
+import { findTool } from './mcpTools.js';
+
+const VEHICLES = [
+  { vehicleId: 'v1', registrationNumber: 'WP-CA-4521', make: 'Toyota', model: 'Aqua' },
+  { vehicleId: 'v2', registrationNumber: 'CAB-1234', make: 'Honda', model: 'Vezel' }
+];
+
+const TOOLS = [
+  { name: 'get_getVehicles', description: 'List the customer vehicles with insurance status', inputSchema: { type: 'object', properties: {} } },
+  { name: 'get_vehicles_{id}', description: 'Vehicle detail with policy history', inputSchema: { type: 'object', properties: { id: { type: 'string' } }, required: ['id'] } },
+  { name: 'post_purchasePolicy', description: 'Buy a policy for a vehicle', inputSchema: { type: 'object', properties: { quoteId: { type: 'string' } }, required: ['quoteId'] } },
+  { name: 'delete_quote', description: 'Withdraw a quote', inputSchema: { type: 'object', properties: { quoteId: { type: 'string' } }, required: ['quoteId'] } },
+  { name: 'put_quote', description: 'Change the coverage of a quote', inputSchema: { type: 'object', properties: { quoteId: { type: 'string' } }, required: ['quoteId'] } }
+];
+
+// Session double recording the tool calls; results per tool name, an Error result is thrown
+function fakeSession(results, { discoveryError, tools = TOOLS } = {}) {
+  const calls = [];
+  return {
+    calls,
+    async listTools() {
+      if (discoveryError) throw discoveryError;
+      return tools;
+    },
+    async callTool(name, args) {
+      calls.push({ name, args });
+      const result = results[name];
+      if (result instanceof Error) throw result;
+      return { data: result, text: JSON.stringify(result) };
+    }
+  };
+}
+
+test('stub calls the matching tool and answers from its result', async () => {
+  const session = fakeSession({ get_getVehicles: VEHICLES });
+  const progress = [];
+  const reply = await runAgent({
+    provider: createStubProvider(),
+    session,
+    prompt: 'Show my vehicles',
+    locale: 'en-GB',
+    onProgress: (message) => progress.push(message)
+  });
+
+  assert.deepEqual(session.calls, [{ name: 'get_getVehicles', args: {} }]);
+  assert.deepEqual(progress, ['Calling get_getVehicles...']);
+  assert.equal(reply.text, '**get_getVehicles** returned 2 item(s).');
+  assert.deepEqual(reply.toolResults, [{ tool: 'get_getVehicles', data: VEHICLES, text: JSON.stringify(VEHICLES) }]);
+});
+
+test('stub replies are deterministic', async () => {
+  const ask = () => runAgent({ provider: createStubProvider(), session: fakeSession({ get_getVehicles: VEHICLES }), prompt: 'Show my vehicles', locale: 'en-US' });
+  assert.deepEqual(await ask(), await ask());
+});
+
+test('a failing tool is reported to the model and in the results', async () => {
+  const session = fakeSession({ get_getVehicles: new Error('Gateway timeout') });
+  const reply = await runAgent({ provider: createStubProvider(), session, prompt: 'Show my vehicles', locale: 'en-US' });
+
+  assert.equal(reply.text, '**get_getVehicles** returned a result.');
+  assert.deepEqual(reply.toolResults, [{ tool: 'get_getVehicles', error: 'Gateway timeout' }]);
+});
+
+test('tools that change data are never offered to the model', async () => {
+  const offered = [];
+  const provider = {
+    name: 'recorder',
+    async chat({ tools }) {
+      offered.push(...tools.map(t => t.name));
+      return { text: 'ok' };
+    }
+  };
+  const tools = [
+    ...TOOLS,
+    { name: 'post_getQuote', description: 'Quote for a vehicle', inputSchema: { type: 'object', properties: { vehicleId: { type: 'string' } }, required: ['vehicleId'] } }
+  ];
+  await runAgent({ provider, session: fakeSession({}, { tools }), prompt: 'Buy a policy', locale: 'en-US' });
+
+  // A POST quote request is the only write tool let through
+  assert.deepEqual(offered, ['get_getVehicles', 'get_vehicles__id_', 'post_getQuote']);
+});
+
+test('the loop stops offering tools after the last round', async () => {
+  const offered = [];
+  const provider = {
+    name: 'insistent',
+    async chat({ tools }) {
+      offered.push(tools.length);
+      return tools.length
+        ? { toolCalls: [{ id: `call_${offered.length}`, name: 'get_getVehicles', arguments: {} }] }
+        : { text: 'Done' };
+    }
+  };
+  const session = fakeSession({ get_getVehicles: VEHICLES });
+  const reply = await runAgent({ provider, session, prompt: 'Show my vehicles', locale: 'en-US' });
+
+  assert.equal(reply.text, 'Done');
+  assert.deepEqual(offered, [2, 2, 2, 2, 0]);
+  assert.equal(session.calls.length, 4);
+});
+
+test('answers without tools when discovery fails', async () => {
+  const session = fakeSession({}, { discoveryError: new Error('connect ECONNREFUSED 127.0.0.1:8243') });
+  const reply = await runAgent({ provider: createStubProvider(), session, prompt: 'help', locale: 'en-US' });
+
+  assert.equal(reply.text, 'Stub reply to: help');
+  assert.deepEqual(reply.toolResults, []);
+  assert.deepEqual(session.calls, []);
+});
+
+test('the rule engine never picks a purchase tool for a quote', () => {
+  const buy = { name: 'post_buy-insurance', description: 'Buy insurance for a vehicle using an accepted quote', inputSchema: { type: 'object', properties: { vehicleId: { type: 'string' }, quoteId: { type: 'string' } }, required: ['vehicleId'] } };
+  const quote = { name: 'post_getQuote', description: 'Quote for a vehicle', inputSchema: { type: 'object', properties: { vehicleId: { type: 'string' } }, required: ['vehicleId'] } };
+
+  assert.equal(findTool([buy], 'quote', { vehicleId: 'v1' }), null);
+  assert.equal(findTool([buy, quote], 'quote', { vehicleId: 'v1' })?.tool, quote);
+});
@@ -0,0 +1,220 @@
+// LLM providers for the chat assistant. Each provider has one method:
+//
+//   chat({ system, messages, tools, signal }) → { text } or { toolCalls: [{ id, name, arguments }] }
+//
+// messages are provider-neutral:
+//   { role: 'user', content }
+//   { role: 'assistant', content, toolCalls? }
+//   { role: 'tool', toolCallId, name, content }   content is the tool result as JSON text
+// tools are { name, description, parameters } with a JSON Schema for parameters.
+//
+// Chosen with CHAT_LLM_PROVIDER (gemini | openai | stub); unset means no
+// provider and the rule engine in server.js answers on its own.
+
+import { GoogleGenerativeAI } from '@google/generative-ai';
+
+const DEFAULT_GEMINI_MODEL = 'gemini-1.5-flash';
+const DEFAULT_OPENAI_MODEL = 'gpt-4o-mini';
+const DEFAULT_OPENAI_BASE_URL = 'https://api.openai.com/v1';
+
+export class LlmError extends Error {
+  constructor(message, provider, status) {
+    super(message);
+    this.name = 'LlmError';
+    this.provider = provider;
+    this.status = status;
+  }
+}
+
+// A tool result as Gemini's functionResponse value: decoded JSON (object or text), else the raw text
+function toolResponse(content) {
+  try {
+    return JSON.parse(content);
+  } catch {
+    return content;
+  }
+}
+
+function parseArguments(text) {
+  try {
+    const args = JSON.parse(text || '{}');
+    return args && typeof args === 'object' ? args : {};
+  } catch {
+    return {};
+  }
+}
+
+// Gemini accepts an OpenAPI subset of JSON Schema; anything else is dropped
+function geminiSchema(schema) {
+  if (!schema || typeof schema !== 'object') return undefined;
+  const out = {};
+  if (typeof schema.type === 'string') out.type = schema.type;
+  if (schema.description) out.description = schema.description;
+  if (Array.isArray(schema.enum)) out.enum = schema.enum.map(String);
+  if (schema.items) out.items = geminiSchema(schema.items);
+  if (schema.properties) {
+    out.properties = Object.fromEntries(Object.entries(schema.properties).map(([k, v]) => [k, geminiSchema(v) || { type: 'string' }]));
+    if (Array.isArray(schema.required) && schema.required.length) out.required = schema.required;
+  }
+  if (out.type === 'object' && !out.properties) return undefined;
+  return out;
+}
+
+export function createGeminiProvider({ apiKey, model = DEFAULT_GEMINI_MODEL }) {
+  const genAI = new GoogleGenerativeAI(apiKey);
+
+  // Neutral messages to Gemini contents; consecutive tool results share one turn.
+  // Gemini rejects contents that open with a model turn (e.g. the chat's greeting), so those are dropped
+  const toContents = (messages) => {
+    const contents = [];
+    const start = messages.findIndex(m => m.role === 'user');
+    for (const m of start < 0 ? [] : messages.slice(start)) {
+      if (m.role === 'user') {
+        contents.push({ role: 'user', parts: [{ text: m.content }] });
+      } else if (m.role === 'assistant') {
+        const parts = [
+          ...(m.content ? [{ text: m.content }] : []),
+          ...(m.toolCalls || []).map(c => ({ functionCall: { name: c.name, args: c.arguments } }))
+        ];
+        if (parts.length) contents.push({ role: 'model', parts });
+      } else if (m.role === 'tool') {
+        const part = { functionResponse: { name: m.name, response: { result: toolResponse(m.content) } } };
+        const last = contents[contents.length - 1];
+        if (last?.role === 'function') last.parts.push(part);
+        else contents.push({ role: 'function', parts: [part] });
+      }
+    }
+    return contents;
+  };
+
+  return {
+    name: `gemini (${model})`,
+    async chat({ system, messages, tools, signal }) {
+      const generativeModel = genAI.getGenerativeModel({
+        model,
+        systemInstruction: system,
+        ...(tools.length ? {
+          tools: [{ functionDeclarations: tools.map(t => ({ name: t.name, description: t.description, parameters: geminiSchema(t.parameters) })) }]
+        } : {})
+      });
+      let result;
+      try {
+        result = await generativeModel.generateContent({ contents: toContents(messages) }, { signal });
+      } catch (e) {
+        if (signal?.aborted) throw e;
+        throw new LlmError(e.message, 'gemini', e.status);
+      }
+      const calls = result.response.functionCalls() || [];
+      if (calls.length) {
+        return { toolCalls: calls.map((c, i) => ({ id: `call_${i}`, name: c.name, arguments: c.args || {} })) };
+      }
+      return { text: result.response.text() };
+    }
+  };
+}
+
+// Any server with the OpenAI chat completions API (OpenAI, Azure OpenAI, vLLM, Ollama, LM Studio, ...)
+export function createOpenAiProvider({ apiKey, baseUrl = DEFAULT_OPENAI_BASE_URL, model = DEFAULT_OPENAI_MODEL }) {
+  const toMessages = (system, messages) => [
+    { role: 'system', content: system },
+    ...messages.map(m => {
+      if (m.role === 'tool') return { role: 'tool', tool_call_id: m.toolCallId, content: m.content };
+      if (m.role === 'assistant' && m.toolCalls?.length) {
+        return {
+          role: 'assistant',
+          content: m.content || null,
+          tool_calls: m.toolCalls.map(c => ({ id: c.id, type: 'function', function: { name: c.name, arguments: JSON.stringify(c.arguments) } }))
+        };
+      }
+      return { role: m.role, content: m.content };
+    })
+  ];
+
+  return {
+    name: `openai-compatible (${model} at ${baseUrl})`,
+    async chat({ system, messages, tools, signal }) {
+      const res = await fetch(`${baseUrl.replace(/\/$/, '')}/chat/completions`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(apiKey ? { 'Authorization': `Bearer ${apiKey}` } : {})
+        },
+        body: JSON.stringify({
+          model,
+          messages: toMessages(system, messages),
+          ...(tools.length ? { tools: tools.map(t => ({ type: 'function', function: t })) } : {})
+        }),
+        signal
+      });
+      const body = await res.json().catch(() => null);
+      if (!res.ok) throw new LlmError(body?.error?.message || `HTTP ${res.status}`, 'openai', res.status);
+
+      const message = body?.choices?.[0]?.message;
+      if (!message) throw new LlmError('Response has no message', 'openai', res.status);
+      if (message.tool_calls?.length) {
+        return {
+          toolCalls: message.tool_calls.map(c => ({ id: c.id, name: c.function.name, arguments: parseArguments(c.function.arguments) }))
+        };
+      }
+      return { text: message.content || '' };
+    }
+  };
+}
+
+// Deterministic provider for offline tests: calls the first tool whose name
+// or description shares a word with the question, then reports what came back
+export function createStubProvider() {
+  return {
+    name: 'stub',
+    async chat({ messages, tools }) {
+      const last = messages[messages.length - 1];
+      if (last?.role === 'tool') {
+        const results = messages.slice(messages.map(m => m.role).lastIndexOf('assistant') + 1);
+        return {
+          text: results.map(r => {
+            const data = parseArguments(r.content);
+            const count = Array.isArray(data) ? data.length : Array.isArray(data?.vehicles) ? data.vehicles.length : null;
+            return `**${r.name}** returned ${count === null ? 'a result' : `${count} item(s)`}.`;
+          }).join('\n')
+        };
+      }
+
+      const prompt = (last?.content || '').toLowerCase();
+      const words = prompt.match(/[a-z]{4,}/g) || [];
+      const tool = tools.find(t => words.some(w => `${t.name} ${t.description || ''}`.toLowerCase().includes(w.replace(/(ies|s)$/, ''))));
+      if (tool) {
+        const required = tool.parameters?.required || [];
+        if (!required.length) return { toolCalls: [{ id: 'call_0', name: tool.name, arguments: {} }] };
+      }
+      return { text: `Stub reply to: ${last?.content || ''}` };
+    }
+  };
+}
+
+// Provider from the environment, or null to use the rule engine
+export function createProvider(env = process.env) {
+  const choice = (env.CHAT_LLM_PROVIDER || '').toLowerCase();
+  if (!choice) return null;
+
+  if (choice === 'stub') return createStubProvider();
+  if (choice === 'gemini') {
+    if (!env.GEMINI_API_KEY) {
+      console.warn('[LLM] CHAT_LLM_PROVIDER=gemini but GEMINI_API_KEY is not set; using the rule engine');
+      return null;
+    }
+    return createGeminiProvider({ apiKey: env.GEMINI_API_KEY, model: env.GEMINI_MODEL || DEFAULT_GEMINI_MODEL });
+  }
+  if (choice === 'openai') {
+    if (!env.OPENAI_API_KEY && !env.OPENAI_BASE_URL) {
+      console.warn('[LLM] CHAT_LLM_PROVIDER=openai but neither OPENAI_API_KEY nor OPENAI_BASE_URL is set; using the rule engine');
+      return null;
+    }
+    return createOpenAiProvider({
+      apiKey: env.OPENAI_API_KEY,
+      baseUrl: env.OPENAI_BASE_URL || DEFAULT_OPENAI_BASE_URL,
+      model: env.OPENAI_MODEL || DEFAULT_OPENAI_MODEL
+    });
+  }
+  console.warn(`[LLM] Unknown CHAT_LLM_PROVIDER "${choice}"; using the rule engine`);
+  return null;
+}
@@ -0,0 +1,255 @@
+// MCP client for the PolicyInfoChatAPI endpoint published through APIM
+// (streamable HTTP transport, JSON-RPC 2.0):
+// - initialize + notifications/initialized, then the Mcp-Session-Id the server returns on every request
+// - tools/list (all pages), cached per session
+// - tools/call with progress notifications forwarded to the caller
+// Responses may be plain JSON or SSE-framed; JSON-RPC errors and tool errors become McpError.
+
+import https from 'https';
+
+const MCP_URL = new URL('https://localhost:8243/PolicyInfoChatAPI/1/mcp');
+const PROTOCOL_VERSION = '2025-06-18';
+const CLIENT_INFO = { name: 'insurance-policy-chat-api', version: '1.0.0' };
+const REQUEST_TIMEOUT_MS = 30000;
+// Sessions are reused per access token for this long
+const SESSION_TTL_MS = 10 * 60 * 1000;
+const MAX_SESSIONS = 50;
+
+export class McpError extends Error {
+  // code: JSON-RPC error code, HTTP status, or 'tool_error' when the tool itself reported a failure
+  constructor(message, code, data) {
+    super(message);
+    this.name = 'McpError';
+    this.code = code;
+    this.data = data;
+  }
+}
+
+// Split SSE text into complete events; returns the unparsed remainder
+function readSseEvents(buffer, onData) {
+  const events = buffer.split(/\r\n\r\n|\n\n|\r\r/);
+  const rest = events.pop();
+  for (const event of events) {
+    const data = event
+      .split(/\r\n|\r|\n/)
+      .filter(line => line.startsWith('data:'))
+      .map(line => line.slice(5).replace(/^ /, ''))
+      .join('\n');
+    if (data) onData(data);
+  }
+  return rest;
+}
+
+// POST one JSON-RPC message; every JSON-RPC message in the reply (JSON, batch or SSE) goes to onMessage
+function post(body, { accessToken, sessionId, signal, onMessage }) {
+  return new Promise((resolve, reject) => {
+    const payload = JSON.stringify(body);
+    const headers = {
+      'Accept': 'application/json, text/event-stream',
+      'Authorization': `Bearer ${accessToken}`,
+      'Content-Type': 'application/json',
+      'Content-Length': Buffer.byteLength(payload),
+      'MCP-Protocol-Version': PROTOCOL_VERSION
+    };
+    if (sessionId) headers['Mcp-Session-Id'] = sessionId;
+
+    const req = https.request({
+      hostname: MCP_URL.hostname,
+      port: MCP_URL.port,
+      path: MCP_URL.pathname,
+      method: 'POST',
+      headers,
+      rejectUnauthorized: false,
+      timeout: REQUEST_TIMEOUT_MS,
+      signal
+    }, (res) => {
+      const isSse = (res.headers['content-type'] || '').includes('text/event-stream');
+      const deliver = (text) => {
+        let message;
+        try {
+          message = JSON.parse(text);
+        } catch (e) {
+          throw new McpError(`Invalid JSON from MCP server: ${e.message}`, -32700);
+        }
+        (Array.isArray(message) ? message : [message]).forEach(onMessage);
+      };
+
+      let buffer = '';
+      res.setEncoding('utf8');
+      res.on('data', (chunk) => {
+        buffer += chunk;
+        if (isSse && res.statusCode < 400) {
+          try {
+            buffer = readSseEvents(buffer, deliver);
+          } catch (e) {
+            req.destroy(e);
+          }
+        }
+      });
+      res.on('end', () => {
+        try {
+          if (res.statusCode >= 400) {
+            throw new McpError(`MCP server returned HTTP ${res.statusCode}${buffer ? `: ${buffer.slice(0, 200)}` : ''}`, res.statusCode);
+          }
+          if (isSse) readSseEvents(buffer + '\n\n', deliver);
+          else if (buffer.trim()) deliver(buffer);
+          resolve({ status: res.statusCode, sessionId: res.headers['mcp-session-id'] });
+        } catch (e) {
+          reject(e);
+        }
+      });
+      res.on('error', reject);
+    });
+
+    req.on('timeout', () => req.destroy(new McpError('MCP request timed out', 'timeout')));
+    req.on('error', reject);
+    req.end(payload);
+  });
+}
+
+// Text parts (and embedded text resources) of a tool result, with any JSON decoded:
+// { data, text, content } - data is structuredContent, the single JSON part, or an array of JSON parts
+export function readToolResult(result) {
+  const content = Array.isArray(result?.content) ? result.content : [];
+  const texts = content
+    .map(part => part?.type === 'text' ? part.text : part?.type === 'resource' ? part.resource?.text : undefined)
+    .filter(text => typeof text === 'string');
+  const json = texts.map(text => {
+    try { return JSON.parse(text); } catch { return undefined; }
+  });
+
+  let data = result?.structuredContent ?? null;
+  if (data === null && json.length && json.every(j => j !== undefined)) {
+    data = json.length === 1 ? json[0] : json;
+  }
+  return { data, text: texts.join('\n\n'), content };
+}
+
+export class McpSession {
+  constructor(accessToken) {
+    this.accessToken = accessToken;
+    this.sessionId = null;
+    this.nextId = 1;
+    this.serverInfo = null;
+    this.tools = null;
+    this.initializing = null;
+  }
+
+  // Send a request and wait for the response with its id; progress notifications go to onProgress
+  async send(method, params, { signal, onProgress } = {}) {
+    const id = this.nextId++;
+    const progressToken = onProgress ? `${id}` : undefined;
+    const body = {
+      jsonrpc: '2.0',
+      id,
+      method,
+      params: progressToken ? { ...params, _meta: { ...(params?._meta || {}), progressToken } } : params
+    };
+
+    let response = null;
+    const { sessionId } = await post(body, {
+      accessToken: this.accessToken,
+      sessionId: this.sessionId,
+      signal,
+      onMessage: (message) => {
+        if (message.id === id && ('result' in message || 'error' in message)) response = message;
+        else if (message.method === 'notifications/progress' && onProgress && `${message.params?.progressToken}` === progressToken) {
+          onProgress(message.params);
+        }
+      }
+    });
+    if (sessionId) this.sessionId = sessionId;
+
+    if (!response) throw new McpError(`No response to ${method}`, -32603);
+    if (response.error) {
+      throw new McpError(response.error.message || `${method} failed`, response.error.code, response.error.data);
+    }
+    return response.result;
+  }
+
+  async notify(method, params) {
+    await post({ jsonrpc: '2.0', method, ...(params ? { params } : {}) }, {
+      accessToken: this.accessToken,
+      sessionId: this.sessionId,
+      onMessage: () => {}
+    });
+  }
+
+  // initialize once; concurrent callers wait for the same handshake
+  initialize(signal) {
+    if (!this.initializing) {
+      this.initializing = (async () => {
+        const result = await this.send('initialize', {
+          protocolVersion: PROTOCOL_VERSION,
+          capabilities: {},
+          clientInfo: CLIENT_INFO
+        }, { signal });
+        this.serverInfo = result?.serverInfo || null;
+        // Gateways differ in how they answer notifications; a failure here does not stop the session
+        await this.notify('notifications/initialized').catch(e => console.warn('[MCP] initialized notification failed:', e.message));
+        console.log(`[MCP] Session ready: ${this.serverInfo?.name || 'unknown server'} (protocol ${result?.protocolVersion})`);
+      })().catch((e) => {
+        this.initializing = null;
+        throw e;
+      });
+    }
+    return this.initializing;
+  }
+
+  // A request in an initialised session; an expired session (HTTP 404) is set up again once
+  async request(method, params, options = {}) {
+    await this.initialize(options.signal);
+    try {
+      return await this.send(method, params, options);
+    } catch (e) {
+      if (!(e instanceof McpError) || e.code !== 404 || !this.sessionId) throw e;
+      console.log('[MCP] Session expired, initialising again');
+      this.sessionId = null;
+      this.initializing = null;
+      this.tools = null;
+      await this.initialize(options.signal);
+      return this.send(method, params, options);
+    }
+  }
+
+  async listTools({ signal } = {}) {
+    if (!this.tools) {
+      const tools = [];
+      let cursor;
+      do {
+        const result = await this.request('tools/list', cursor ? { cursor } : {}, { signal });
+        tools.push(...(Array.isArray(result?.tools) ? result.tools : []));
+        cursor = result?.nextCursor;
+      } while (cursor);
+      this.tools = tools;
+      console.log(`[MCP] Discovered tools: ${tools.map(t => t.name).join(', ') || 'none'}`);
+    }
+    return this.tools;
+  }
+
+  // Call a tool and decode its result; a result flagged isError throws
+  async callTool(name, args = {}, { signal, onProgress } = {}) {
+    const result = await this.request('tools/call', { name, arguments: args }, { signal, onProgress });
+    const decoded = readToolResult(result);
+    if (result?.isError) {
+      throw new McpError(decoded.text || `Tool ${name} failed`, 'tool_error', decoded.data);
+    }
+    return decoded;
+  }
+}
+
+const sessions = new Map();
+
+// Session for this access token, reused until SESSION_TTL_MS
+export function getMcpSession(accessToken, now = Date.now()) {
+  for (const [token, entry] of sessions) {
+    if (now - entry.createdAt > SESSION_TTL_MS) sessions.delete(token);
+  }
+  let entry = sessions.get(accessToken);
+  if (!entry) {
+    if (sessions.size >= MAX_SESSIONS) sessions.delete(sessions.keys().next().value);
+    entry = { session: new McpSession(accessToken), createdAt: now };
+    sessions.set(accessToken, entry);
+  }
+  return entry.session;
+}
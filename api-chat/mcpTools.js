@@ -0,0 +1,133 @@
+// Tool selection over whatever the MCP endpoint publishes.
+// Tools are matched by name / description and by whether their input schema
+// can be filled from what the chat knows (vehicle, policy, quote IDs), so a
+// tool added in APIM is picked up without code changes. Results without a
+// dedicated response are rendered generically as markdown.
+
+// Argument values by normalised parameter name (lower case, no punctuation)
+const ARGUMENT_ALIASES = {
+  vehicleId: ['vehicleid', 'id', 'vehicle'],
+  registrationNumber: ['registrationnumber', 'registration', 'regno'],
+  policyId: ['policyid', 'policy', 'policynumber'],
+  quoteId: ['quoteid', 'quote']
+};
+
+// What the chat asks tools for
+const PURPOSES = {
+  // The customer's vehicles with insurance status: no required arguments
+  listVehicles: { match: /vehicle/i, avoid: /quote|detail|polic(y|ies)\b.*\bid/i, noRequired: true },
+  // One vehicle with its policy history
+  vehicleDetail: { match: /vehicle.*(detail|by.?id|history)|detail.*vehicle|get_?vehicle_?\{?id/i, needsArguments: true },
+  // Matched on the name alone: a purchase tool's description often mentions the quote it buys
+  quote: { match: /quote/i, nameOnly: true, needsArguments: true },
+  policy: { match: /polic(y|ies)/i, avoid: /quote|buy|purchase/i, needsArguments: true }
+};
+
+// Tools that change data are never called from chat; verbs count when not part of a longer word
+// ("post_buy-insurance", "buy_policy")
+const WRITE_TOOL = /^(post|put|patch|delete)_|(?<![a-z])(buy|purchase|create|add|update|delete|remove|cancel)(?![a-z])/i;
+// Verbs that make a POST quote tool more than a quote request
+const QUOTE_CHANGE = /buy|purchase|delete|remove|update|cancel/i;
+
+// Tools a model may call: read-only ones, and POST tools that only request a quote (some APIs publish quotes as POST)
+export function callableFromChat(tool) {
+  return !WRITE_TOOL.test(tool.name) || (/^post_.*quote/i.test(tool.name) && !QUOTE_CHANGE.test(tool.name));
+}
+
+const STOP_WORDS = new Set(['show', 'what', 'which', 'with', 'about', 'have', 'does', 'from', 'that', 'this', 'those', 'these', 'them', 'they', 'please', 'tell', 'give', 'list', 'there', 'their', 'your', 'mine']);
+
+function normalise(name) {
+  return String(name).toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+function toolText(tool) {
+  return `${tool.name} ${tool.title || ''} ${tool.description || ''}`;
+}
+
+// Tool arguments from the input schema, filled from context; null when a required one is unknown
+export function toolArguments(tool, context = {}) {
+  const fill = (schema) => {
+    const args = {};
+    const properties = schema?.properties || {};
+    for (const [name, property] of Object.entries(properties)) {
+      if (property?.type === 'object' && property.properties) {
+        const nested = fill(property);
+        if (nested === null) {
+          if ((schema.required || []).includes(name)) return null;
+          continue;
+        }
+        if (Object.keys(nested).length) args[name] = nested;
+        continue;
+      }
+      const key = Object.keys(ARGUMENT_ALIASES).find(k => ARGUMENT_ALIASES[k].includes(normalise(name)));
+      const value = key ? context[key] : undefined;
+      if (value !== undefined && value !== null && value !== '') args[name] = value;
+      else if ((schema.required || []).includes(name)) return null;
+    }
+    return args;
+  };
+  return fill(tool.inputSchema || {});
+}
+
+function requiredCount(tool) {
+  return (tool.inputSchema?.required || []).length;
+}
+
+// Best read-only tool for a purpose, with its arguments: { tool, args } or null
+export function findTool(tools, purpose, context = {}) {
+  const rule = PURPOSES[purpose];
+  const candidates = tools
+    .filter(tool => purpose === 'quote' ? callableFromChat(tool) : !WRITE_TOOL.test(tool.name))
+    .filter(tool => rule.match.test(rule.nameOnly ? tool.name : toolText(tool)) && !(rule.avoid && rule.avoid.test(tool.name)))
+    .filter(tool => !rule.noRequired || requiredCount(tool) === 0)
+    .map(tool => ({ tool, args: toolArguments(tool, context) }))
+    .filter(({ tool, args }) => args && (!rule.needsArguments || Object.keys(args).length || requiredCount(tool) === 0));
+  // Prefer the tool that uses most of what we know
+  candidates.sort((a, b) => Object.keys(b.args).length - Object.keys(a.args).length);
+  return candidates[0] || null;
+}
+
+// Read-only tool whose name or description best matches the prompt's words, for questions no dedicated purpose covers
+export function findToolForPrompt(tools, prompt, context = {}) {
+  const words = prompt.toLowerCase().match(/[a-z]{4,}/g)?.filter(w => !STOP_WORDS.has(w)) || [];
+  if (!words.length) return null;
+  const scored = tools
+    .filter(tool => !WRITE_TOOL.test(tool.name))
+    .map(tool => {
+      const text = toolText(tool).toLowerCase();
+      // Plural / singular both count ("policies" matches "policy")
+      const score = words.filter(w => text.includes(w) || text.includes(w.replace(/(ies|s)$/, ''))).length;
+      return { tool, score, args: toolArguments(tool, context) };
+    })
+    .filter(({ score, args }) => score > 0 && args);
+  scored.sort((a, b) => b.score - a.score);
+  return scored[0] ? { tool: scored[0].tool, args: scored[0].args } : null;
+}
+
+function label(key) {
+  return key.replace(/([a-z])([A-Z])/g, '$1 $2').replace(/[_-]+/g, ' ').replace(/^./, c => c.toUpperCase());
+}
+
+function scalar(value) {
+  return value === null || ['string', 'number', 'boolean'].includes(typeof value);
+}
+
+// Markdown for any tool result: scalars as "Label: value", arrays of objects as numbered lists
+export function formatToolData(data, depth = 0) {
+  const indent = '   '.repeat(depth);
+  if (scalar(data)) return `${indent}${data === true ? '✅' : data === false ? '❌' : data ?? 'N/A'}`;
+  if (Array.isArray(data)) {
+    if (!data.length) return `${indent}(none)`;
+    return data.map((item, i) => scalar(item)
+      ? `${indent}• ${item}`
+      // Nested arrays (e.g. several JSON content parts) are listed in place rather than numbered again
+      : Array.isArray(item) ? formatToolData(item, depth)
+      : `${indent}${i + 1}. ${formatToolData(item, depth + 1).trimStart()}`).join('\n');
+  }
+  const lines = [];
+  for (const [key, value] of Object.entries(data || {})) {
+    if (scalar(value)) lines.push(`${indent}${label(key)}: ${formatToolData(value).trim()}`);
+    else if (depth < 2) lines.push(`${indent}**${label(key)}**\n${formatToolData(value, depth + 1)}`);
+  }
+  return lines.join('\n');
+}
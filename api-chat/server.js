@@ -1,81 +1,220 @@
 import express from 'express';
 import cors from 'cors';
-import https from 'https';
+import { getMcpSession } from './mcpClient.js';
+import { findTool, findToolForPrompt, formatToolData } from './mcpTools.js';
+import { createProvider } from './llmProviders.js';
+import { runAgent } from './chatAgent.js';
 
 const app = express();
 const PORT = 3002;
+// Pause between streamed reply chunks, so the reply visibly builds up
+const STREAM_CHUNK_DELAY_MS = 20;
+// LLM provider from CHAT_LLM_PROVIDER; null answers with the rule engine alone
+const llmProvider = createProvider();
+const MODE = llmProvider
+  ? `LLM (${llmProvider.name}) with PolicyInfoChatAPI MCP tools, rule engine fallback`
+  : 'Local Analysis + Policy Info MCP Integration';
 
 // Middleware
 app.use(cors());
 app.use(express.json());
 
-// Helper function to call MCP server via APIM
-async function callMcpServer(accessToken) {
-  return new Promise((resolve, reject) => {
-    const requestBody = {
-      method: "tools/call",
-      params: {
-        name: "get_getVehicles",
-        arguments: {},
-        _meta: {
-          progressToken: 3
-        }
-      },
-      jsonrpc: "2.0",
-      id: 4
-    };
-
-    const options = {
-      hostname: 'localhost',
-      port: 8243,
-      path: '/PolicyInfoChatAPI/1/mcp',
-      method: 'POST',
-      headers: {
-        'Accept': 'application/json, text/event-stream',
-        'Authorization': `Bearer ${accessToken}`,
-        'Content-Type': 'application/json',
-        'Content-Length': Buffer.byteLength(JSON.stringify(requestBody))
-      },
-      rejectUnauthorized: false
-    };
-
-    const req = https.request(options, (res) => {
-      let data = '';
-      res.on('data', (chunk) => { data += chunk; });
-      res.on('end', () => {
-        try {
-          resolve(JSON.parse(data));
-        } catch (e) {
-          reject(new Error(`Failed to parse MCP response: ${e.message}`));
-        }
-      });
-    });
+const DEFAULT_LOCALE = 'en-US';
+
+// Format an amount with its own currency in the user's locale; unknown codes fall back to "number CODE"
+function formatMoney(amount, currency, locale = DEFAULT_LOCALE) {
+  const whole = Number.isInteger(amount);
+  try {
+    return new Intl.NumberFormat(locale, {
+      style: 'currency',
+      currency,
+      minimumFractionDigits: whole ? 0 : undefined,
+      maximumFractionDigits: whole ? 0 : undefined,
+    }).format(amount);
+  } catch {
+    try {
+      return `${amount.toLocaleString(locale)} ${currency}`;
+    } catch {
+      return `${amount.toLocaleString(DEFAULT_LOCALE)} ${currency}`;
+    }
+  }
+}
+
+// Totals per currency - amounts in different currencies are never added together
+function totalsByCurrency(vehicles) {
+  const totals = new Map();
+  vehicles.forEach(v => totals.set(v.currency, (totals.get(v.currency) || 0) + v.estimatedValue));
+  return Array.from(totals, ([currency, amount]) => ({ currency, amount }));
+}
+
+// Turns of the conversation sent as context (oldest first)
+const MAX_HISTORY_TURNS = 10;
+// "Expiring" without a period means within this many days
+const EXPIRY_WINDOW_DAYS = 90;
+
+// Recent { role, content } turns from the request, ignoring anything malformed
+function parseHistory(history) {
+  if (!Array.isArray(history)) return [];
+  return history
+    .filter(t => t && (t.role === 'user' || t.role === 'assistant') && typeof t.content === 'string')
+    .slice(-MAX_HISTORY_TURNS);
+}
+
+// Follow-up that refers back to the previous answer ("and which of those...")
+function isFollowUp(prompt, history) {
+  if (!history.some(t => t.role === 'assistant')) return false;
+  return /\b(those|these|them|they|ones|it|its|that one)\b/i.test(prompt) || /^\s*(and|what about|how about)\b/i.test(prompt);
+}
+
+// Vehicles the last assistant turn talked about, by registration or make and model
+function vehiclesFromLastReply(history, vehicles) {
+  const last = [...history].reverse().find(t => t.role === 'assistant');
+  if (!last) return [];
+  return vehicles.filter(v => last.content.includes(v.registrationNumber) || last.content.includes(`${v.make} ${v.model}`));
+}
 
-    req.on('error', reject);
-    req.write(JSON.stringify(requestBody));
-    req.end();
+// Insured vehicles whose cover ends in the period the prompt names
+function expiringVehicles(vehicles, lowerPrompt, now = new Date()) {
+  const within = lowerPrompt.includes('this month')
+    ? (d) => d.getFullYear() === now.getFullYear() && d.getMonth() === now.getMonth()
+    : lowerPrompt.includes('this year')
+      ? (d) => d.getFullYear() === now.getFullYear()
+      : (d) => d.getTime() - now.getTime() <= EXPIRY_WINDOW_DAYS * 24 * 60 * 60 * 1000;
+  return vehicles.filter(v => {
+    const until = v.insuranceStatus?.isInsured && v.insuranceStatus.insuredUntil ? new Date(v.insuranceStatus.insuredUntil) : null;
+    return until && !isNaN(until.getTime()) && until >= now && within(until);
   });
 }
 
+// Vehicle list in the { customerId, vehicles } shape, from a bare array, { vehicles } or an APIM { list } envelope
+function policyInfoFrom(data) {
+  if (Array.isArray(data)) return { vehicles: data };
+  if (data && Array.isArray(data.vehicles)) return data;
+  if (data && Array.isArray(data.list)) return { ...data, vehicles: data.list };
+  return null;
+}
+
+// The one vehicle a question is about: registration or make / model in the prompt, else the only vehicle of the previous reply
+function targetVehicle(prompt, history, vehicles) {
+  const compact = (text) => text.toUpperCase().replace(/[^A-Z0-9]/g, '');
+  const byRegistration = vehicles.find(v => v.registrationNumber && compact(prompt).includes(compact(v.registrationNumber)));
+  if (byRegistration) return byRegistration;
+  const lowerPrompt = prompt.toLowerCase();
+  const byModel = vehicles.filter(v => v.model && lowerPrompt.includes(v.model.toLowerCase()));
+  if (byModel.length === 1) return byModel[0];
+  const previous = isFollowUp(prompt, history) ? vehiclesFromLastReply(history, vehicles) : [];
+  return previous.length === 1 ? previous[0] : null;
+}
+
+// Step 2: discover the MCP tools, fetch the vehicle list, and call any per-vehicle or other tool the question needs.
+// Returns { policyInfoData, toolResults: [{ purpose, tool, vehicle, data, text } | { purpose, tool, vehicle, error }] }
+async function gatherToolData(accessToken, prompt, history, { signal, onProgress }) {
+  const session = getMcpSession(accessToken);
+  const tools = await session.listTools({ signal });
+  const lowerPrompt = prompt.toLowerCase();
+  const forward = (params) => params?.message && onProgress(params.message);
+
+  let policyInfoData = null;
+  const listTool = findTool(tools, 'listVehicles');
+  const wantsVehicles = isPolicyInfoRequest(prompt) || isFollowUp(prompt, history);
+  if (listTool && wantsVehicles) {
+    onProgress('Fetching your policies...');
+    const { data } = await session.callTool(listTool.tool.name, listTool.args, { signal, onProgress: forward });
+    policyInfoData = policyInfoFrom(data);
+  }
+
+  const vehicle = targetVehicle(prompt, history, policyInfoData?.vehicles || []);
+  const context = vehicle
+    ? { vehicleId: vehicle.vehicleId, registrationNumber: vehicle.registrationNumber, policyId: vehicle.insuranceStatus?.policyId }
+    : {};
+
+  let purpose = null;
+  let match = null;
+  if (vehicle && /quote|how much|cost to insure/.test(lowerPrompt)) {
+    purpose = 'quote';
+    match = findTool(tools, 'quote', context);
+  } else if (vehicle && /polic|detail|history|claim/.test(lowerPrompt)) {
+    purpose = 'policy';
+    match = findTool(tools, 'policy', context) || findTool(tools, 'vehicleDetail', context);
+  } else if (!wantsVehicles) {
+    // A question outside the built-in topics may still match a tool published later
+    purpose = 'other';
+    match = findToolForPrompt(tools, prompt, context);
+  }
+
+  const toolResults = [];
+  if (match) {
+    const name = match.tool.title || match.tool.name;
+    onProgress(`Calling ${name}...`);
+    try {
+      const result = await session.callTool(match.tool.name, match.args, { signal, onProgress: forward });
+      toolResults.push({ purpose, tool: name, vehicle, data: result.data, text: result.text });
+    } catch (e) {
+      if (signal.aborted) throw e;
+      console.error(`[CHAT] Tool ${match.tool.name} failed:`, e.message);
+      toolResults.push({ purpose, tool: name, vehicle, error: e.message });
+    }
+  }
+  return { policyInfoData, toolResults };
+}
+
+// Reply for tool results: quotes get their options and premiums, anything else a generic listing
+function formatToolResults(toolResults, locale) {
+  return toolResults.map(({ purpose, tool, vehicle, data, text, error }) => {
+    const about = vehicle ? ` for ${vehicle.make} ${vehicle.model} (${vehicle.registrationNumber})` : '';
+    if (error) return `⚠️ I couldn't get ${purpose === 'quote' ? 'a quote' : tool}${about}: ${error}`;
+
+    const options = Array.isArray(data?.options) ? data.options : null;
+    if (purpose === 'quote' && options) {
+      const currency = data.currency || vehicle?.currency;
+      const price = (amount) => typeof amount === 'number' && currency ? formatMoney(amount, currency, locale) : amount;
+      return `💬 **Quote${about}**\n\n${options.map((o, i) => `${i + 1}. **${o.name || o.coverage || o.id}** - ${price(o.premium)}`).join('\n')}${data.validUntil ? `\n\nValid until: ${data.validUntil}` : ''}`;
+    }
+    const title = purpose === 'policy' ? `📋 **Policy details${about}**` : `🔧 **${tool}${about}**`;
+    return `${title}\n\n${data !== null && data !== undefined ? formatToolData(data) : text || 'No details returned.'}`;
+  }).join('\n\n');
+}
+
 // Check if prompt refers to policy information
 function isPolicyInfoRequest(prompt) {
-  const keywords = ['vehicle', 'car', 'insurance', 'policy', 'vehicles', 'cars', 'coverage', 'premium', 'insured', 'van', 'motorcycle', 'bike', 'registration', 'summary', 'overview', 'policies'];
+  const keywords = ['vehicle', 'car', 'insurance', 'policy', 'vehicles', 'cars', 'coverage', 'premium', 'insured', 'van', 'motorcycle', 'bike', 'registration', 'summary', 'overview', 'policies', 'expire', 'expiring', 'renew', 'quote'];
   const lowerPrompt = prompt.toLowerCase();
   return keywords.some(keyword => lowerPrompt.includes(keyword));
 }
 
-// Generate response based on prompt and optional policy info data
-function generateResponse(prompt, policyInfoData) {
+// Generate response based on prompt, earlier turns and optional policy info data
+function generateResponse(prompt, policyInfoData, locale = DEFAULT_LOCALE, history = [], toolResults = []) {
   const lowerPrompt = prompt.toLowerCase();
 
+  // A specific tool answered the question (quote, policy, or a newly published tool)
+  if (toolResults.length) {
+    console.log(`[CHAT] Matched: tool results (${toolResults.map(r => r.tool).join(', ')})`);
+    return formatToolResults(toolResults, locale);
+  }
+
   // If we have policy info data, generate data-driven response
   if (policyInfoData) {
-    const vehicles = policyInfoData.vehicles || [];
+    const allVehicles = policyInfoData.vehicles || [];
 
-    if (vehicles.length === 0) {
+    if (allVehicles.length === 0) {
       return "I retrieved your policy information, but there are no vehicles registered in your account.";
     }
 
+    // A follow-up narrows the answer to the vehicles of the previous reply
+    const previous = isFollowUp(prompt, history) ? vehiclesFromLastReply(history, allVehicles) : [];
+    const vehicles = previous.length ? previous : allVehicles;
+    if (previous.length) console.log(`[CHAT] Follow-up about ${previous.length} vehicle(s) from the previous reply`);
+
+    if (lowerPrompt.includes('expir') || lowerPrompt.includes('renew')) {
+      console.log('[CHAT] Matched: expiry/renewal');
+      const expiring = expiringVehicles(vehicles, lowerPrompt);
+      const period = lowerPrompt.includes('this month') ? 'this month' : lowerPrompt.includes('this year') ? 'this year' : `in the next ${EXPIRY_WINDOW_DAYS} days`;
+      if (expiring.length === 0) {
+        return `None of ${previous.length ? 'those vehicles' : 'your vehicles'} have cover expiring ${period}.`;
+      }
+      return `⏰ **Cover Expiring ${period}**\n\n${expiring.map((v, i) => `${i + 1}. **${v.make} ${v.model}** (${v.registrationNumber})\n   Policy ID: ${v.insuranceStatus?.policyId || 'N/A'}\n   Insured Until: ${v.insuranceStatus?.insuredUntil}`).join('\n\n')}`;
+    }
+
     // Generate contextual responses based on the prompt
     if (lowerPrompt.includes('summary') || lowerPrompt.includes('overview')) {
       console.log('[CHAT] Matched: summary/overview');
@@ -89,13 +228,16 @@ function generateResponse(prompt, policyInfoData) {
       if (insuredVehicles.length === 0) {
         return "None of your vehicles currently have active insurance coverage.";
       }
-      return `📋 **Insured Vehicles**\n\n${insuredVehicles.map((v, i) => `${i + 1}. **${v.make} ${v.model}** (${v.registrationNumber})\n   Policy ID: ${v.insuranceStatus?.policyId}\n   Insured Until: ${v.insuranceStatus?.insuredUntil}\n   Value: ${v.estimatedValue.toLocaleString('en-US')} ${v.currency}`).join('\n\n')}`;
+      return `📋 **Insured Vehicles**\n\n${insuredVehicles.map((v, i) => `${i + 1}. **${v.make} ${v.model}** (${v.registrationNumber})\n   Policy ID: ${v.insuranceStatus?.policyId}\n   Insured Until: ${v.insuranceStatus?.insuredUntil}\n   Value: ${formatMoney(v.estimatedValue, v.currency, locale)}`).join('\n\n')}`;
     }
 
     if (lowerPrompt.includes('value') || lowerPrompt.includes('worth') || lowerPrompt.includes('price')) {
       console.log('[CHAT] Matched: value/worth/price');
-      const totalValue = vehicles.reduce((sum, v) => sum + v.estimatedValue, 0);
-      return `💰 **Vehicle Values**\n\nTotal Estimated Value: ${totalValue.toLocaleString('en-US')} LKR\n\n${vehicles.map((v, i) => `${i + 1}. ${v.make} ${v.model} - ${v.estimatedValue.toLocaleString('en-US')} LKR`).join('\n')}`;
+      const totals = totalsByCurrency(vehicles);
+      const totalText = totals.length === 1
+        ? `Total Estimated Value: ${formatMoney(totals[0].amount, totals[0].currency, locale)}`
+        : `Total Estimated Value (per currency, not combined):\n${totals.map(t => `• ${formatMoney(t.amount, t.currency, locale)}`).join('\n')}`;
+      return `💰 **Vehicle Values**\n\n${totalText}\n\n${vehicles.map((v, i) => `${i + 1}. ${v.make} ${v.model} - ${formatMoney(v.estimatedValue, v.currency, locale)}`).join('\n')}`;
     }
 
     if (lowerPrompt.includes('action') || lowerPrompt.includes('available')) {
@@ -110,7 +252,7 @@ function generateResponse(prompt, policyInfoData) {
       if (cars.length === 0) {
         return "You don't have any cars registered in your account.";
       }
-      return `🚗 **Your Cars**\n\n${cars.map((v, i) => `${i + 1}. **${v.make} ${v.model}**\n   Registration: ${v.registrationNumber}\n   Year: ${v.manufactureYear}\n   Estimated Value: ${v.estimatedValue.toLocaleString('en-US')} ${v.currency}\n   Insurance Status: ${v.insuranceStatus?.isInsured ? '✅ Insured' : '❌ Not Insured'}\n   Policy ID: ${v.insuranceStatus?.policyId || 'N/A'}\n   Insured Until: ${v.insuranceStatus?.insuredUntil || 'N/A'}`).join('\n\n')}`;
+      return `🚗 **Your Cars**\n\n${cars.map((v, i) => `${i + 1}. **${v.make} ${v.model}**\n   Registration: ${v.registrationNumber}\n   Year: ${v.manufactureYear}\n   Estimated Value: ${formatMoney(v.estimatedValue, v.currency, locale)}\n   Insurance Status: ${v.insuranceStatus?.isInsured ? '✅ Insured' : '❌ Not Insured'}\n   Policy ID: ${v.insuranceStatus?.policyId || 'N/A'}\n   Insured Until: ${v.insuranceStatus?.insuredUntil || 'N/A'}`).join('\n\n')}`;
     }
 
     // Check for specific make/brand filter
@@ -123,7 +265,7 @@ function generateResponse(prompt, policyInfoData) {
         return `You don't have any ${detectedMake.charAt(0).toUpperCase() + detectedMake.slice(1)} vehicles registered in your account.`;
       }
       const capitalizedMake = detectedMake.charAt(0).toUpperCase() + detectedMake.slice(1);
-      return `🚗 **Your ${capitalizedMake} Vehicles**\n\n${filteredVehicles.map((v, i) => `${i + 1}. **${v.make} ${v.model}** (${v.type})\n   Registration: ${v.registrationNumber}\n   Year: ${v.manufactureYear}\n   Estimated Value: ${v.estimatedValue.toLocaleString('en-US')} ${v.currency}\n   Insurance Status: ${v.insuranceStatus?.isInsured ? '✅ Insured' : '❌ Not Insured'}\n   Policy ID: ${v.insuranceStatus?.policyId || 'N/A'}\n   Insured Until: ${v.insuranceStatus?.insuredUntil || 'N/A'}`).join('\n\n')}`;
+      return `🚗 **Your ${capitalizedMake} Vehicles**\n\n${filteredVehicles.map((v, i) => `${i + 1}. **${v.make} ${v.model}** (${v.type})\n   Registration: ${v.registrationNumber}\n   Year: ${v.manufactureYear}\n   Estimated Value: ${formatMoney(v.estimatedValue, v.currency, locale)}\n   Insurance Status: ${v.insuranceStatus?.isInsured ? '✅ Insured' : '❌ Not Insured'}\n   Policy ID: ${v.insuranceStatus?.policyId || 'N/A'}\n   Insured Until: ${v.insuranceStatus?.insuredUntil || 'N/A'}`).join('\n\n')}`;
     }
 
     if (lowerPrompt.includes('van') || lowerPrompt.includes('truck')) {
@@ -137,7 +279,7 @@ function generateResponse(prompt, policyInfoData) {
 
     // Default response with policy data
     console.log('[CHAT] Matched: default (has policy data)');
-    return `🚗 **Your Vehicles**\n\nCustomer ID: ${policyInfoData.customerId}\n\n${vehicles.map((v, i) => `${i + 1}. **${v.make} ${v.model}** (${v.type})\n   Registration: ${v.registrationNumber}\n   Year: ${v.manufactureYear}\n   Estimated Value: ${v.estimatedValue.toLocaleString('en-US')} ${v.currency}\n   Insurance Status: ${v.insuranceStatus?.isInsured ? '✅ Insured' : '❌ Not Insured'}`).join('\n\n')}`;
+    return `🚗 **Your Vehicles**\n\nCustomer ID: ${policyInfoData.customerId}\n\n${vehicles.map((v, i) => `${i + 1}. **${v.make} ${v.model}** (${v.type})\n   Registration: ${v.registrationNumber}\n   Year: ${v.manufactureYear}\n   Estimated Value: ${formatMoney(v.estimatedValue, v.currency, locale)}\n   Insurance Status: ${v.insuranceStatus?.isInsured ? '✅ Insured' : '❌ Not Insured'}`).join('\n\n')}`;
   }
 
   // No policy data - provide helpful response
@@ -155,10 +297,35 @@ function generateResponse(prompt, policyInfoData) {
   return "Hello! 👋 I'm your insurance assistant. I can help you with your vehicle and insurance information. Try asking me about:\n\n• Your vehicles\n• Insurance coverage status\n• Vehicle values\n• Available actions on your policies\n\nJust ask me anything about your vehicles and insurance!";
 }
 
-// Chat endpoint
+// Reply text in word-sized chunks that join back to the full text
+function textChunks(text) {
+  return text.match(/\s*\S+\s*/g) || [];
+}
+
+const sleep = (ms) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Chat endpoint - streams server-sent events when the client accepts text/event-stream:
+//   progress { message }  tool call under way
+//   token    { text }     next piece of the reply
+//   done     { hadPolicyInfo, policyInfoData }
+//   error    { error, message }
+// Otherwise one JSON reply, as before
 app.post('/chat', async (req, res) => {
+  const stream = (req.headers.accept || '').includes('text/event-stream');
+  const upstream = new AbortController();
+  let closed = false;
+  res.on('close', () => {
+    closed = true;
+    upstream.abort();
+  });
+  // Events only go to a streaming client
+  const send = (event, data) => {
+    if (stream && !closed) res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+  };
+
   try {
-    const { prompt } = req.body;
+    const { prompt, locale, conversationId } = req.body;
+    const history = parseHistory(req.body.history);
     const authHeader = req.headers.authorization;
 
     if (!prompt) {
@@ -170,48 +337,98 @@ app.post('/chat', async (req, res) => {
     }
 
     const accessToken = authHeader.substring(7);
+    const replyLocale = typeof locale === 'string' && locale ? locale : DEFAULT_LOCALE;
+    const onProgress = (message) => send('progress', { message });
     let policyInfoData = null;
+    let toolResults = [];
+    let responseText = null;
+
+    if (stream) {
+      res.writeHead(200, {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        'Connection': 'keep-alive'
+      });
+    }
 
-    // Step 1: Analyze prompt locally
-    const needsPolicyInfo = isPolicyInfoRequest(prompt);
+    // Step 1: Log the request
+    console.log(`[CHAT] Conversation: ${conversationId || 'none'} (${history.length} earlier turns)`);
     console.log(`[CHAT] User prompt: "${prompt}"`);
-    console.log(`[CHAT] Needs policy info data: ${needsPolicyInfo}`);
     console.log(`[CHAT] Access Token (first 20 chars): ${accessToken.substring(0, 20)}...`);
 
-    // Step 2: If policy info is needed, call MCP server
-    if (needsPolicyInfo) {
+    // Step 2a: With a provider configured, the model calls the MCP tools and writes the reply
+    if (llmProvider) {
       try {
-        console.log('[CHAT] Fetching policy info data from MCP server...');
-        const mcpResponse = await callMcpServer(accessToken);
-        console.log('[CHAT] MCP Response:', JSON.stringify(mcpResponse, null, 2));
-
-        // Extract policy info data from MCP response
-        if (mcpResponse.result && mcpResponse.result.content && mcpResponse.result.content[0]) {
-          const contentText = mcpResponse.result.content[0].text;
-          policyInfoData = JSON.parse(contentText);
-          console.log('[CHAT] Policy info data retrieved successfully');
-        } else {
-          console.log('[CHAT] MCP response missing expected structure. Result:', mcpResponse.result);
+        const reply = await runAgent({
+          provider: llmProvider,
+          session: getMcpSession(accessToken),
+          prompt,
+          history,
+          locale: replyLocale,
+          signal: upstream.signal,
+          onProgress
+        });
+        responseText = reply.text;
+        // A vehicle list among the results still drives the vehicle cards
+        policyInfoData = reply.toolResults.map(r => policyInfoFrom(r.data)).find(Boolean) || null;
+        console.log(`[CHAT] Response generated by ${llmProvider.name} (${reply.toolResults.length} tool call(s))`);
+      } catch (e) {
+        if (closed) {
+          console.log('[CHAT] Client went away during the LLM call');
+          return;
         }
+        console.error(`[CHAT] ${llmProvider.name} failed, using the rule engine:`, e.message);
+      }
+    }
+
+    if (responseText === null) {
+      // Step 2b: Call the MCP tools the question needs (any question may match a discovered tool)
+      try {
+        ({ policyInfoData, toolResults } = await gatherToolData(accessToken, prompt, history, {
+          signal: upstream.signal,
+          onProgress
+        }));
+        console.log(`[CHAT] Policy info data: ${policyInfoData ? `${policyInfoData.vehicles.length} vehicle(s)` : 'none'}; tool results: ${toolResults.length}`);
       } catch (e) {
-        console.error('[CHAT] MCP call failed:', e.message);
-        console.error('[CHAT] Error stack:', e.stack);
+        if (closed) {
+          console.log('[CHAT] Client went away during the MCP call');
+          return;
+        }
+        console.error(`[CHAT] MCP call failed (${e.code ?? 'network'}):`, e.message);
         // Continue without policy info data
       }
+
+      // Step 3: Generate response locally
+      responseText = generateResponse(prompt, policyInfoData, replyLocale, history, toolResults);
+      console.log('[CHAT] Response generated');
     }
 
-    // Step 3: Generate response locally
-    const responseText = generateResponse(prompt, policyInfoData);
-    console.log('[CHAT] Response generated');
+    if (!stream) {
+      return res.json({
+        conversationId: conversationId || null,
+        response: responseText,
+        hadPolicyInfo: !!policyInfoData,
+        policyInfoData: policyInfoData || null
+      });
+    }
 
-    res.json({
-      response: responseText,
-      hadPolicyInfo: !!policyInfoData,
-      policyInfoData: policyInfoData || null
-    });
+    for (const text of textChunks(responseText)) {
+      if (closed) {
+        console.log('[CHAT] Client cancelled the reply');
+        return;
+      }
+      send('token', { text });
+      await sleep(STREAM_CHUNK_DELAY_MS);
+    }
+    send('done', { conversationId: conversationId || null, hadPolicyInfo: !!policyInfoData, policyInfoData: policyInfoData || null });
+    res.end();
 
   } catch (error) {
     console.error('[CHAT] Error:', error);
+    if (res.headersSent) {
+      send('error', { error: 'Chat processing failed', message: error.message });
+      return res.end();
+    }
     res.status(500).json({
       error: 'Chat processing failed',
       message: error.message
@@ -219,12 +436,27 @@ app.post('/chat', async (req, res) => {
   }
 });
 
+// Tools discovered on the MCP endpoint for this user's token
+app.get('/tools', async (req, res) => {
+  const authHeader = req.headers.authorization;
+  if (!authHeader || !authHeader.startsWith('Bearer ')) {
+    return res.status(401).json({ error: 'Missing or invalid Authorization header' });
+  }
+  try {
+    const tools = await getMcpSession(authHeader.substring(7)).listTools();
+    res.json({ tools: tools.map(({ name, title, description, inputSchema }) => ({ name, title, description, inputSchema })) });
+  } catch (e) {
+    console.error('[TOOLS] Discovery failed:', e.message);
+    res.status(502).json({ error: 'Tool discovery failed', message: e.message, code: e.code });
+  }
+});
+
 // Health check endpoint
 app.get('/health', (req, res) => {
   res.json({
     status: 'ok',
     service: 'insurance-policy-chat-api',
-    mode: 'Local Analysis + Policy Info MCP Integration'
+    mode: MODE
   });
 });
 
@@ -232,7 +464,7 @@ app.get('/health', (req, res) => {
 app.listen(PORT, () => {
   console.log(`\n🚀 Chat API Server Started`);
   console.log(`📍 Port: ${PORT}`);
-  console.log(`🤖 Mode: Local prompt analysis with PolicyInfoChatAPI MCP integration`);
+  console.log(`🤖 Mode: ${MODE}`);
   console.log(`\n📡 Endpoints:`);
   console.log(`   POST http://localhost:${PORT}/chat - Submit chat message`);
   console.log(`   GET  http://localhost:${PORT}/health - Health check\n`);
@@ -1,4 +1,11 @@
-import { API_CONFIG } from "./config";
+import { API_CONFIG, DEMO_MODE } from "./config";
+import { apiRequest } from "./apiClient";
+import { ApiError } from "./errors";
+import * as mock from "./mockBackend";
+import { DEFAULT_VEHICLE_QUERY, VehicleQuery, vehicleQueryParams } from "./vehicleQuery";
+import { parseVehicle, parseVehicleList, parseVehicleDetail, parseQuote, parsePolicy, VehicleListResult } from "./validation";
+
+export type { VehicleListResult, DroppedRecord } from "./validation";
 
 export interface Vehicle {
   vehicleId: string;
@@ -21,12 +28,54 @@ export interface Vehicle {
   };
 }
 
+/**
+ * Fields the customer can set when adding or editing a vehicle
+ */
+export interface VehicleInput {
+  registrationNumber: string;
+  /** Body type from the form: Sedan, SUV, Truck, Motorcycle, Other */
+  vehicleType: string;
+  year: number;
+  make: string;
+  model: string;
+  estimatedValue: number;
+  currency: string;
+}
+
+export interface QuoteAddOn {
+  code: string;
+  name: string;
+  premium: number;
+}
+
+export interface QuoteOption {
+  id: string;
+  /** Coverage tier, e.g. THIRD_PARTY, COMPREHENSIVE, COMPREHENSIVE_PLUS */
+  tier: string;
+  name: string;
+  deductible: number;
+  /** Add-ons included in this option (roadside assistance, flood cover, ...) */
+  addOns: QuoteAddOn[];
+  breakdown: {
+    basePremium: number;
+    addOnPremium: number;
+    tax: number;
+  };
+  /** Total premium: base + add-ons + tax */
+  premium: number;
+}
+
 export interface Quote {
   id: string;
   vehicleId: string;
+  /** Premium and coverage of the recommended option */
   premium: number;
   coverage: string;
   validUntil: string;
+  /** Policy being renewed, when this is a renewal quote */
+  renewalOf?: string;
+  /** Coverage options to choose from; a single-option quote has one entry */
+  options: QuoteOption[];
 }
 
 export interface InsurancePolicy {
@@ -36,178 +85,131 @@ export interface InsurancePolicy {
   startDate: string;
   endDate: string;
   premium: number;
-  status: "Active" | "Expired";
+  status: "Active" | "Expired" | "PendingRenewal";
+  coverage?: string;
 }
 
-// Mock data for vehicles (fallback)
-const mockVehicles: Vehicle[] = [
-  {
-    vehicleId: "VEH-001",
-    make: "Toyota",
-    model: "Corolla",
-    registrationNumber: "WP-CA-4521",
-    type: "CAR",
-    manufactureYear: 2022,
-    estimatedValue: 4500000,
-    currency: "LKR",
-    insuranceStatus: {
-      isInsured: true,
-      policyId: "POL-2025-000874",
-      insuredUntil: "2025-12-31"
-    },
-    actionsAvailable: {
-      canGetQuote: false,
-      canBuyInsurance: false,
-      canViewPolicy: true
-    }
-  },
-  {
-    vehicleId: "VEH-002",
-    make: "Honda",
-    model: "Civic",
-    registrationNumber: "WP-CB-7834",
-    type: "CAR",
-    manufactureYear: 2021,
-    estimatedValue: 3800000,
-    currency: "LKR",
-    insuranceStatus: {
-      isInsured: true,
-      policyId: "POL-2025-000874",
-      insuredUntil: "2025-12-31"
-    },
-    actionsAvailable: {
-      canGetQuote: false,
-      canBuyInsurance: false,
-      canViewPolicy: true
-    }
-  },
-  {
-    vehicleId: "VEH-003",
-    make: "Toyota",
-    model: "Hiace",
-    registrationNumber: "WP-KA-9912",
-    type: "VAN",
-    manufactureYear: 2020,
-    estimatedValue: 5200000,
-    currency: "LKR",
-    insuranceStatus: {
-      isInsured: false
-    },
-    actionsAvailable: {
-      canGetQuote: true,
-      canBuyInsurance: false,
-      canViewPolicy: false
-    }
-  }
-];
-
-export async function fetchVehicles(accessToken: string): Promise<Vehicle[]> {
-  const res = await fetch(API_CONFIG.GET_VEHICLES_URL, {
-    method: "GET",
-    headers: {
-      "Authorization": `Bearer ${accessToken}`,
-      "Accept": "application/json"
-    }
-  });
-
-  if (res.status === 204) return mockVehicles;
-  if (!res.ok) {
-    // Return mock data as fallback
-    return mockVehicles;
-  }
+export interface VehicleDetail {
+  vehicle: Vehicle;
+  /** Policy currently attached to the vehicle, if any */
+  policy: InsurancePolicy | null;
+  /** All known policies for the vehicle, newest first */
+  policyHistory: InsurancePolicy[];
+}
 
-  const data = await res.json().catch(() => null);
-  if (!data) return mockVehicles;
+// Every function below is served by ./mockBackend when DEMO_MODE is on;
+// in live mode failures surface as typed errors, never as mock data.
+
+/**
+ * One page of the user's vehicles; search, filters and sort are applied by
+ * the server. `total` and `offset` place the page in the full result, and
+ * vehicles on it that failed validation are left out of `vehicles` and
+ * listed in `dropped`
+ */
+export async function fetchVehicles(query: VehicleQuery = DEFAULT_VEHICLE_QUERY): Promise<VehicleListResult> {
+  const params = vehicleQueryParams(query);
+  const data = DEMO_MODE
+    ? await mock.listVehicles(params)
+    : await apiRequest<unknown>(API_CONFIG.GET_VEHICLES_URL, { query: params });
+
+  // 204 No Content: no vehicles registered
+  if (!data) return { vehicles: [], dropped: [], total: 0, offset: query.offset };
+
+  // Parse API response structure (array, { vehicles }, or { list } with pagination)
+  return parseVehicleList(data);
+}
 
-  // Parse API response structure
-  if (Array.isArray(data)) return data as Vehicle[];
-  if (Array.isArray(data.vehicles)) return data.vehicles as Vehicle[];
-  if (data?.list && Array.isArray(data.list)) return data.list as Vehicle[];
+export async function addVehicle(input: VehicleInput): Promise<Vehicle> {
+  const data = DEMO_MODE
+    ? await mock.addVehicle(input)
+    : await apiRequest<unknown>(API_CONFIG.ADD_VEHICLE_URL, {
+        method: "POST",
+        body: input
+      });
+  if (!data) throw new ApiError("Vehicle response was empty", 204);
 
-  return mockVehicles;
+  return parseVehicle(data);
 }
 
-export async function addVehicle(
-  accessToken: string,
-  registrationNumber: string,
-  vehicleType: string,
-  year: number
-): Promise<Vehicle> {
-  const res = await fetch(API_CONFIG.ADD_VEHICLE_URL, {
-    method: "POST",
-    headers: {
-      "Authorization": `Bearer ${accessToken}`,
-      "Accept": "application/json",
-      "Content-Type": "application/json"
-    },
-    body: JSON.stringify({
-      registrationNumber,
-      vehicleType,
-      year
-    })
-  });
+export async function updateVehicle(vehicleId: string, input: VehicleInput): Promise<Vehicle> {
+  const data = DEMO_MODE
+    ? await mock.updateVehicle(vehicleId, input)
+    : await apiRequest<unknown>(API_CONFIG.UPDATE_VEHICLE_URL.replace("{id}", encodeURIComponent(vehicleId)), {
+        method: "PUT",
+        body: input
+      });
+  if (!data) throw new ApiError("Vehicle response was empty", 204);
+
+  return parseVehicle(data);
+}
 
-  if (!res.ok) {
-    const text = await res.text().catch(() => "");
-    throw new Error(`Failed to add vehicle: ${res.status} ${text}`);
+/**
+ * Remove a vehicle from the customer's account (sold, scrapped, added by mistake)
+ */
+export async function deleteVehicle(vehicleId: string): Promise<void> {
+  if (DEMO_MODE) {
+    await mock.deleteVehicle(vehicleId);
+    return;
   }
+  await apiRequest<unknown>(API_CONFIG.DELETE_VEHICLE_URL.replace("{id}", encodeURIComponent(vehicleId)), {
+    method: "DELETE"
+  });
+}
 
-  const data = await res.json().catch(() => null);
-  if (!data) throw new Error("Vehicle response was not JSON");
+export async function getVehicleDetail(
+  vehicleId: string
+): Promise<VehicleDetail> {
+  const data = DEMO_MODE
+    ? await mock.getVehicleDetail(vehicleId)
+    : await apiRequest<unknown>(API_CONFIG.GET_VEHICLE_DETAIL_URL.replace("{id}", encodeURIComponent(vehicleId)));
+  if (!data) throw new ApiError("Vehicle detail response was empty", 204);
 
-  return data as Vehicle;
+  return parseVehicleDetail(data);
 }
 
+/**
+ * @param renewalOf - Current policy ID to request a renewal quote for an insured vehicle
+ */
 export async function getQuote(
-  accessToken: string,
-  vehicleId: string
+  vehicleId: string,
+  renewalOf?: string
 ): Promise<Quote> {
-  const url = new URL(API_CONFIG.GET_QUOTE_URL);
-  url.searchParams.set("vehicleId", vehicleId);
-
-  const res = await fetch(url.toString(), {
-    method: "GET",
-    headers: {
-      "Authorization": `Bearer ${accessToken}`,
-      "Accept": "application/json"
-    }
-  });
-
-  if (!res.ok) {
-    const text = await res.text().catch(() => "");
-    throw new Error(`Failed to get quote: ${res.status} ${text}`);
-  }
-
-  const data = await res.json().catch(() => null);
-  if (!data) throw new Error("Quote response was not JSON");
-
-  return data as Quote;
+  const data = DEMO_MODE
+    ? await mock.getQuote(vehicleId, renewalOf)
+    : await apiRequest<unknown>(API_CONFIG.GET_QUOTE_URL, {
+        query: { vehicleId, renewalOf }
+      });
+  if (!data) throw new ApiError("Quote response was empty", 204);
+
+  return parseQuote(data);
 }
 
+/**
+ * Authorised with the step-up transaction token, not the login session
+ * @param optionId - Chosen QuoteOption; not sent for single-option quotes (option id === quote id)
+ * @param idempotencyKey - Same key for every attempt at one purchase; the backend returns the
+ * original policy instead of charging again
+ * @throws TimeoutError when the backend does not answer within PURCHASE_TIMEOUT_MS; the
+ * purchase may still have gone through
+ */
 export async function buyInsurance(
-  accessToken: string,
   vehicleId: string,
-  quoteId: string
+  quoteId: string,
+  optionId?: string,
+  idempotencyKey?: string
 ): Promise<InsurancePolicy> {
-  const url = new URL(API_CONFIG.BUY_INSURANCE_URL);
-  url.searchParams.set("vehicleId", vehicleId);
-  url.searchParams.set("quoteId", quoteId);
-
-  const res = await fetch(url.toString(), {
-    method: "POST",
-    headers: {
-      "Authorization": `Bearer ${accessToken}`,
-      "Accept": "application/json"
-    }
-  });
-
-  if (!res.ok) {
-    const text = await res.text().catch(() => "");
-    throw new Error(`Failed to buy insurance: ${res.status} ${text}`);
-  }
-
-  const data = await res.json().catch(() => null);
-  if (!data) throw new Error("Insurance response was not JSON");
-
-  return data as InsurancePolicy;
+  if (optionId === quoteId) optionId = undefined;
+
+  const data = DEMO_MODE
+    ? await mock.buyInsurance(vehicleId, quoteId, optionId, idempotencyKey)
+    : await apiRequest<unknown>(API_CONFIG.BUY_INSURANCE_URL, {
+        method: "POST",
+        query: { vehicleId, quoteId, optionId },
+        headers: idempotencyKey ? { "Idempotency-Key": idempotencyKey } : {},
+        purpose: "transaction",
+        timeoutMs: API_CONFIG.PURCHASE_TIMEOUT_MS
+      });
+  if (!data) throw new ApiError("Insurance response was empty", 204);
+
+  return parsePolicy(data);
 }
@@ -0,0 +1,131 @@
+/**
+ * API Client
+ *
+ * Single entry point for calls to the APIM-fronted insurance APIs:
+ * - Adds the session's bearer token for the request's purpose (login token
+ *   with refresh + one retry on 401, or the step-up transaction token)
+ * - Serialises query parameters and JSON bodies
+ * - Parses APIM fault payloads and throws typed errors (see ./errors)
+ */
+
+import { authorizedFetch, TokenPurpose } from "./session";
+import {
+  ApiError,
+  ApiFault,
+  AuthError,
+  NetworkError,
+  NotFoundError,
+  ThrottledError,
+  TimeoutError,
+  ValidationError,
+} from "./errors";
+
+export interface RequestOptions {
+  method?: "GET" | "POST" | "PUT" | "PATCH" | "DELETE";
+  query?: Record<string, string | number | boolean | undefined>;
+  body?: unknown;
+  headers?: Record<string, string>;
+  /** Which token authorises the call; defaults to the login session */
+  purpose?: TokenPurpose;
+  /** Abort and throw TimeoutError when there is no response in time */
+  timeoutMs?: number;
+}
+
+/**
+ * Send a request and return the parsed JSON body, or null for an empty response (e.g. 204)
+ * @throws AuthError | ThrottledError | ValidationError | NotFoundError | TimeoutError | NetworkError | ApiError
+ */
+export async function apiRequest<T>(url: string, options: RequestOptions = {}): Promise<T | null> {
+  const { method = "GET", query, body, headers = {}, purpose = "login", timeoutMs } = options;
+
+  const target = new URL(url);
+  Object.entries(query || {}).forEach(([k, v]) => {
+    if (v !== undefined) target.searchParams.set(k, String(v));
+  });
+
+  const init: RequestInit = {
+    method,
+    headers: { Accept: "application/json", ...headers },
+  };
+  if (body !== undefined) {
+    init.headers = { ...init.headers, "Content-Type": "application/json" };
+    init.body = JSON.stringify(body);
+  }
+
+  const controller = timeoutMs ? new AbortController() : null;
+  const timer = controller && setTimeout(() => controller.abort(), timeoutMs);
+  if (controller) init.signal = controller.signal;
+
+  let res: Response;
+  let text: string;
+  try {
+    res = await authorizedFetch(target.toString(), init, purpose);
+    text = await res.text().catch(() => "");
+  } catch (e: any) {
+    if (e instanceof ApiError) throw e;
+    if (controller?.signal.aborted) throw new TimeoutError(`No response after ${timeoutMs} ms`);
+    throw new NetworkError(e?.message || "Network request failed");
+  } finally {
+    if (timer) clearTimeout(timer);
+  }
+
+  const data = text ? safeJson(text) : null;
+
+  if (!res.ok) throw toApiError(res, data, text);
+  if (!text) return null;
+  if (data === undefined) throw new ApiError("Response was not JSON", res.status);
+
+  return data as T;
+}
+
+function safeJson(text: string): any {
+  try { return JSON.parse(text); } catch { return undefined; }
+}
+
+/**
+ * APIM faults come either bare ({ code, message, description }) or wrapped in { fault: {...} }
+ */
+function parseFault(data: any): ApiFault & { nextAccessTime?: string } {
+  const f = data?.fault || data || {};
+  return {
+    code: f.code !== undefined ? String(f.code) : undefined,
+    message: typeof f.message === "string" ? f.message : (typeof f.error === "string" ? f.error : undefined),
+    description: typeof f.description === "string" ? f.description : (typeof f.error_description === "string" ? f.error_description : undefined),
+    nextAccessTime: f.nextAccessTime,
+  };
+}
+
+function parseRetryAfter(res: Response, nextAccessTime?: string): number | undefined {
+  const header = res.headers.get("Retry-After");
+  if (header) {
+    const secs = Number(header);
+    if (!isNaN(secs)) return Math.max(Math.ceil(secs), 0);
+    const at = Date.parse(header);
+    if (!isNaN(at)) return Math.max(Math.ceil((at - Date.now()) / 1000), 0);
+  }
+  if (nextAccessTime) {
+    const at = Number(nextAccessTime) || Date.parse(nextAccessTime);
+    if (!isNaN(at)) return Math.max(Math.ceil((at - Date.now()) / 1000), 0);
+  }
+  return undefined;
+}
+
+function toApiError(res: Response, data: any, text: string): ApiError {
+  const fault = parseFault(data);
+  const message = fault.message || text || `HTTP ${res.status}`;
+
+  switch (res.status) {
+    case 401:
+    case 403:
+      return new AuthError(message, res.status, fault);
+    case 429:
+      return new ThrottledError(message, res.status, fault, parseRetryAfter(res, fault.nextAccessTime));
+    case 400:
+    case 422:
+      return new ValidationError(message, res.status, fault);
+    case 404:
+      return new NotFoundError(message, res.status, fault);
+    default:
+      return new ApiError(message, res.status, fault);
+  }
+}
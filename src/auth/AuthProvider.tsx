@@ -0,0 +1,196 @@
+/**
+ * AuthProvider - OIDC session context for the insurance demo
+ *
+ * Provides:
+ * - PKCE + nonce authorization code login against WSO2 Identity Server,
+ *   with endpoints taken from OIDC discovery (./oidc)
+ * - Single-invoke code exchange on the redirect back (StrictMode safe); the
+ *   ID token is validated before the tokens are stored
+ * - Login and transaction tokens mirrored from the session manager
+ *   (../session), incl. silent refresh
+ * - /userinfo claims once signed in
+ * - RP-initiated logout
+ */
+
+import React, { createContext, useContext, useEffect, useRef, useState } from "react";
+import { OIDC_CONFIG as C } from "../config";
+import { getTokenStore, setTokens as storeTokens, clearTokens, subscribe, authorizedFetch, TokenSet, TokenStore } from "../session";
+import { IdTokenError } from "../errors";
+import { clearChatHistory } from "../chatStore";
+import { saveSession, loadSession } from "./pkce";
+import { discover, buildAuthorizationRequest, validateIdToken, ProviderMetadata } from "./oidc";
+
+export interface AuthContextValue {
+  /** Login session tokens (CLIENT_ID) */
+  tokens: TokenSet | null;
+  /** Step-up token (CLIENT_ID2), present only while a protected action runs */
+  transactionTokens: TokenSet | null;
+  userInfo: any;
+  signedIn: boolean;
+  /** Discovered provider metadata, null until discovery has loaded */
+  metadata: ProviderMetadata | null;
+  /** Last login / token exchange / userinfo error, "" when none */
+  error: string;
+  startLogin: (clientId?: string) => Promise<void>;
+  /** Clear local session state only (tokens, userinfo, stored chat history) */
+  clearSession: () => void;
+  /** Clear local state and end the IS session (redirects) */
+  logout: () => void;
+}
+
+const AuthContext = createContext<AuthContextValue | null>(null);
+
+export function useAuth(): AuthContextValue {
+  const ctx = useContext(AuthContext);
+  if (!ctx) throw new Error("useAuth must be used inside <AuthProvider>");
+  return ctx;
+}
+
+export function AuthProvider({ children }: { children?: React.ReactNode }) {
+  const [error, setError] = useState("");
+  const [tokenStore, setTokenStore] = useState<TokenStore>(() => getTokenStore());
+  const [userInfo, setUserInfo] = useState<any>(null);
+  const [metadata, setMetadata] = useState<ProviderMetadata | null>(null);
+  const exchangingRef = useRef(false);
+
+  const tokens = tokenStore.login || null;
+  const transactionTokens = tokenStore.transaction || null;
+  const signedIn = !!tokens;
+
+  // Mirror the session manager (refreshes, expiry, logout) into React state
+  useEffect(() => subscribe(setTokenStore), []);
+
+  useEffect(() => {
+    discover().then(setMetadata, (e) => setError(String(e?.message || e)));
+  }, []);
+
+  // Fetch userinfo once signed in (not on every silent refresh)
+  useEffect(() => {
+    (async () => {
+      if (!signedIn) { setUserInfo(null); return; }
+
+      try {
+        const { userinfo_endpoint } = await discover();
+        if (!userinfo_endpoint) throw new Error("Provider does not publish a userinfo endpoint");
+        const res = await authorizedFetch(userinfo_endpoint);
+        if (!res.ok) throw new Error("Failed to fetch userinfo");
+        setUserInfo(await res.json());
+      } catch (e: any) {
+        setError(String(e?.message || e));
+      }
+    })();
+  }, [signedIn]);
+
+  async function startLogin(clientId?: string) {
+    if (clientId && typeof clientId !== "string") {
+      clientId = undefined;
+    }
+
+    setError("");
+    try {
+      const request = await buildAuthorizationRequest(clientId || C.CLIENT_ID);
+      const { state } = request;
+      saveSession("pkce_state", state);
+      saveSession(`pkce_verifier:${state}`, request.codeVerifier);
+      saveSession(`pkce_nonce:${state}`, request.nonce);
+      saveSession(`pkce_client:${state}`, clientId || C.CLIENT_ID);
+
+      window.location.assign(request.url);
+    } catch (e: any) {
+      setError(`Sign-in unavailable: ${e?.message || String(e)}`);
+    }
+  }
+
+  // Single-invoke code consumption
+  useEffect(() => {
+    const url = new URL(window.location.href);
+    const code = url.searchParams.get("code");
+    const state = url.searchParams.get("state");
+    const storedState = loadSession("pkce_state");
+
+    if (!code || !state || state !== storedState) return;
+
+    const usedKey = `pkce_code_used:${state}:${code}`;
+    const alreadyUsed = sessionStorage.getItem(usedKey);
+    if (alreadyUsed || exchangingRef.current) return;
+
+    exchangingRef.current = true;
+    sessionStorage.setItem(usedKey, "1");
+
+    (async () => {
+      await exchangeCodeForTokens(code, state);
+      url.searchParams.delete("code");
+      url.searchParams.delete("state");
+      url.searchParams.delete("session_state");
+      window.history.replaceState({}, document.title, url.pathname);
+      exchangingRef.current = false;
+    })();
+  }, []);
+
+  async function exchangeCodeForTokens(code: string, state?: string) {
+    try {
+      const codeVerifier =
+        (state && loadSession(`pkce_verifier:${state}`)) ||
+        loadSession("pkce_verifier");
+      const clientIdUsed =
+        (state && loadSession(`pkce_client:${state}`)) ||
+        C.CLIENT_ID;
+      const nonce = state && loadSession(`pkce_nonce:${state}`);
+      if (!codeVerifier) { setError("Missing PKCE verifier. Please sign in again."); return; }
+      if (!nonce) { setError("Missing login nonce. Please sign in again."); return; }
+
+      const body = new URLSearchParams();
+      body.set("grant_type", "authorization_code");
+      body.set("client_id", clientIdUsed);
+      body.set("code", code);
+      body.set("redirect_uri", C.REDIRECT_URI);
+      body.set("code_verifier", codeVerifier);
+
+      const { token_endpoint } = await discover();
+      const res = await fetch(token_endpoint, {
+        method: "POST",
+        headers: { "Content-Type": "application/x-www-form-urlencoded" },
+        body,
+      });
+      if (!res.ok) {
+        const txt = await res.text().catch(() => "");
+        setError(`Token exchange failed (${res.status}). ${txt || "See Network tab."}`);
+        return;
+      }
+      const json = await res.json().catch(() => null);
+      if (!json) { setError("Token response not JSON."); return; }
+
+      // The nonce is single-use: drop it before validating so a replayed
+      // ID token cannot be accepted on a second attempt
+      if (state) { try { sessionStorage.removeItem(`pkce_verifier:${state}`); sessionStorage.removeItem(`pkce_client:${state}`); sessionStorage.removeItem(`pkce_nonce:${state}`); } catch {} }
+      await validateIdToken(json.id_token, { clientId: clientIdUsed, nonce });
+      storeTokens(json, clientIdUsed);
+    } catch (e: any) {
+      if (e instanceof IdTokenError) { setError(`Sign-in rejected: ${e.message}`); return; }
+      setError(`Token exchange error: ${e?.message || String(e)}`);
+    }
+  }
+
+  function clearSession() {
+    clearTokens();
+    clearChatHistory();
+    setUserInfo(null);
+  }
+
+  function logout() {
+    const endSession = metadata?.end_session_endpoint;
+    if (!endSession) { clearSession(); return; }
+
+    const url = new URL(endSession);
+    if (tokens?.id_token) url.searchParams.set("id_token_hint", tokens.id_token);
+    url.searchParams.set("post_logout_redirect_uri", C.REDIRECT_URI);
+    clearSession();
+    window.location.assign(url.toString());
+  }
+
+  return (
+    <AuthContext.Provider value={{ tokens, transactionTokens, userInfo, signedIn, metadata, error, startLogin, clearSession, logout }}>
+      {children}
+    </AuthContext.Provider>
+  );
+}
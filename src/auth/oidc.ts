@@ -0,0 +1,258 @@
+/**
+ * OIDC Client
+ *
+ * Provider-agnostic helpers for the OpenID Connect flows in this app:
+ * - Discovery: endpoints come from {ISSUER}/.well-known/openid-configuration
+ * - JWKS: signing keys are fetched from jwks_uri and re-fetched once on an
+ *   unknown kid (key rotation)
+ * - ID token validation: signature, iss, aud / azp, exp, iat and nonce,
+ *   checked before a token response is handed to the session manager
+ * - PKCE + nonce parameters for the authorization request
+ */
+
+import { OIDC_CONFIG as C } from "../config";
+import { IdTokenError } from "../errors";
+import { randomString, sha256 } from "./pkce";
+
+export interface ProviderMetadata {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  jwks_uri: string;
+  userinfo_endpoint?: string;
+  end_session_endpoint?: string;
+  id_token_signing_alg_values_supported?: string[];
+  [key: string]: unknown;
+}
+
+export interface IdTokenClaims {
+  iss: string;
+  sub: string;
+  aud: string | string[];
+  exp: number;
+  iat: number;
+  nonce?: string;
+  azp?: string;
+  [key: string]: unknown;
+}
+
+export interface DecodedJwt {
+  header: { alg: string; kid?: string; typ?: string; [key: string]: unknown };
+  payload: any;
+  /** "<header>.<payload>" exactly as received, the bytes the signature covers */
+  signingInput: string;
+  signature: Uint8Array;
+}
+
+/** A JWKS entry: WebCrypto's JsonWebKey plus the key ID it is selected by */
+interface Jwk extends JsonWebKey {
+  kid?: string;
+}
+
+export interface AuthorizationRequest {
+  url: string;
+  state: string;
+  nonce: string;
+  codeVerifier: string;
+}
+
+export interface ValidateOptions {
+  clientId: string;
+  /**
+   * Nonce sent in the authorization request. Required for responses to an
+   * authorization request; omitted only for refresh responses, where the
+   * ID token carries no nonce of its own
+   */
+  nonce?: string;
+  now?: number;
+}
+
+// Tolerated clock difference between the browser and Identity Server
+const CLOCK_SKEW_S = 120;
+
+// WebCrypto parameters per JWS alg
+const ALGORITHMS: Record<string, { import: RsaHashedImportParams | EcKeyImportParams; verify: AlgorithmIdentifier | RsaPssParams | EcdsaParams }> = {
+  RS256: { import: { name: "RSASSA-PKCS1-v1_5", hash: "SHA-256" }, verify: { name: "RSASSA-PKCS1-v1_5" } },
+  RS384: { import: { name: "RSASSA-PKCS1-v1_5", hash: "SHA-384" }, verify: { name: "RSASSA-PKCS1-v1_5" } },
+  RS512: { import: { name: "RSASSA-PKCS1-v1_5", hash: "SHA-512" }, verify: { name: "RSASSA-PKCS1-v1_5" } },
+  PS256: { import: { name: "RSA-PSS", hash: "SHA-256" }, verify: { name: "RSA-PSS", saltLength: 32 } },
+  PS384: { import: { name: "RSA-PSS", hash: "SHA-384" }, verify: { name: "RSA-PSS", saltLength: 48 } },
+  PS512: { import: { name: "RSA-PSS", hash: "SHA-512" }, verify: { name: "RSA-PSS", saltLength: 64 } },
+  ES256: { import: { name: "ECDSA", namedCurve: "P-256" }, verify: { name: "ECDSA", hash: "SHA-256" } },
+  ES384: { import: { name: "ECDSA", namedCurve: "P-384" }, verify: { name: "ECDSA", hash: "SHA-384" } },
+};
+
+let metadataRequest: Promise<ProviderMetadata> | null = null;
+let jwks: { uri: string; keys: Jwk[] } | null = null;
+
+function base64UrlDecode(input: string): Uint8Array {
+  let base64 = input.replace(/-/g, "+").replace(/_/g, "/");
+  while (base64.length % 4) base64 += "=";
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+}
+
+/**
+ * Split and decode a compact JWT without verifying it.
+ * Returns null when the token is not a well-formed JWS.
+ */
+export function decodeJwt(token: string | undefined): DecodedJwt | null {
+  if (!token) return null;
+  try {
+    const parts = token.split(".");
+    if (parts.length !== 3) return null;
+    const text = (part: string) => new TextDecoder().decode(base64UrlDecode(part));
+    return {
+      header: JSON.parse(text(parts[0])),
+      payload: JSON.parse(text(parts[1])),
+      signingInput: `${parts[0]}.${parts[1]}`,
+      signature: base64UrlDecode(parts[2]),
+    };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Provider metadata from the discovery document.
+ * Loaded once per page; a failed load is retried on the next call.
+ */
+export function discover(): Promise<ProviderMetadata> {
+  if (metadataRequest) return metadataRequest;
+
+  metadataRequest = (async () => {
+    const url = `${C.ISSUER.replace(/\/$/, "")}/.well-known/openid-configuration`;
+    const res = await fetch(url, { headers: { Accept: "application/json" } });
+    if (!res.ok) throw new Error(`OIDC discovery failed (${res.status})`);
+
+    const json = await res.json().catch(() => null);
+    const missing = ["issuer", "authorization_endpoint", "token_endpoint", "jwks_uri"].filter((k) => typeof json?.[k] !== "string");
+    if (missing.length) throw new Error(`OIDC discovery document is missing ${missing.join(", ")}`);
+
+    // The document must describe the issuer we are configured to trust
+    if (json.issuer !== C.ISSUER) {
+      throw new IdTokenError(`Discovery issuer ${json.issuer} does not match configured issuer ${C.ISSUER}`, "iss");
+    }
+    return json as ProviderMetadata;
+  })();
+  metadataRequest.catch(() => { metadataRequest = null; });
+  return metadataRequest;
+}
+
+async function loadJwks(uri: string): Promise<Jwk[]> {
+  const res = await fetch(uri, { headers: { Accept: "application/json" } });
+  if (!res.ok) throw new Error(`JWKS fetch failed (${res.status})`);
+  const json = await res.json().catch(() => null);
+  if (!Array.isArray(json?.keys)) throw new Error("JWKS response has no keys");
+  jwks = { uri, keys: json.keys };
+  return json.keys;
+}
+
+function pickKey(keys: Jwk[], kid: string | undefined, alg: string): Jwk | undefined {
+  const kty = alg.startsWith("ES") ? "EC" : "RSA";
+  const candidates = keys.filter((k) =>
+    k.kty === kty &&
+    (!k.use || k.use === "sig") &&
+    (!k.alg || k.alg === alg) &&
+    (!kid || k.kid === kid)
+  );
+  // Without a kid the choice is only safe when it is unambiguous
+  return kid || candidates.length === 1 ? candidates[0] : undefined;
+}
+
+/**
+ * Signing key for a token header; refreshes the JWKS once when the kid is
+ * not in the cached set
+ */
+async function signingKey(metadata: ProviderMetadata, kid: string | undefined, alg: string): Promise<Jwk> {
+  const cached = jwks?.uri === metadata.jwks_uri ? jwks.keys : null;
+  let key = cached && pickKey(cached, kid, alg);
+  if (!key) key = pickKey(await loadJwks(metadata.jwks_uri), kid, alg);
+  if (!key) throw new IdTokenError(`No signing key found for kid ${kid || "(none)"}`, "signature");
+  return key;
+}
+
+async function verifySignature(jwt: DecodedJwt, metadata: ProviderMetadata) {
+  const { alg, kid } = jwt.header;
+  const params = ALGORITHMS[alg];
+  const allowed = metadata.id_token_signing_alg_values_supported;
+  if (!params || (allowed && !allowed.includes(alg))) {
+    throw new IdTokenError(`ID token alg ${alg} is not accepted`, "alg");
+  }
+
+  const jwk = await signingKey(metadata, kid, alg);
+  // Only the public key members are imported
+  const publicJwk: JsonWebKey = jwk.kty === "EC"
+    ? { kty: jwk.kty, crv: jwk.crv, x: jwk.x, y: jwk.y, ext: true }
+    : { kty: jwk.kty, n: jwk.n, e: jwk.e, ext: true };
+  const key = await crypto.subtle.importKey("jwk", publicJwk, params.import, false, ["verify"]);
+  // Newer DOM typings want an ArrayBuffer-backed view; base64UrlDecode always makes one
+  const ok = await crypto.subtle.verify(params.verify, key, jwt.signature as BufferSource, new TextEncoder().encode(jwt.signingInput));
+  if (!ok) throw new IdTokenError("ID token signature is invalid", "signature");
+}
+
+/**
+ * Verify an ID token and return its claims.
+ * Throws IdTokenError naming the failed check; the token response it came
+ * from must then be discarded.
+ */
+export async function validateIdToken(idToken: string | undefined, options: ValidateOptions): Promise<IdTokenClaims> {
+  const jwt = decodeJwt(idToken);
+  if (!jwt) throw new IdTokenError("ID token is missing or malformed", "format");
+
+  const metadata = await discover();
+  await verifySignature(jwt, metadata);
+
+  const claims = jwt.payload as IdTokenClaims;
+  const now = Math.floor((options.now ?? Date.now()) / 1000);
+
+  if (claims.iss !== metadata.issuer) {
+    throw new IdTokenError(`ID token issuer ${claims.iss} is not ${metadata.issuer}`, "iss");
+  }
+
+  const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+  if (!audiences.includes(options.clientId)) {
+    throw new IdTokenError("ID token was not issued to this client", "aud");
+  }
+  if (audiences.length > 1 && claims.azp !== options.clientId) {
+    throw new IdTokenError("ID token azp does not match this client", "azp");
+  }
+
+  if (typeof claims.exp !== "number" || claims.exp + CLOCK_SKEW_S <= now) {
+    throw new IdTokenError("ID token has expired", "exp");
+  }
+  if (typeof claims.iat !== "number" || claims.iat - CLOCK_SKEW_S > now) {
+    throw new IdTokenError("ID token was issued in the future", "iat");
+  }
+
+  if (options.nonce !== undefined && claims.nonce !== options.nonce) {
+    throw new IdTokenError("ID token nonce does not match the login request", "nonce");
+  }
+
+  return claims;
+}
+
+/**
+ * Authorization code + PKCE request with a fresh state and nonce.
+ * The caller stores state / nonce / codeVerifier until the redirect returns.
+ */
+export async function buildAuthorizationRequest(clientId: string, scope = C.SCOPE): Promise<AuthorizationRequest> {
+  const metadata = await discover();
+  const codeVerifier = randomString(64);
+  const state = randomString(24);
+  const nonce = randomString(32);
+
+  const url = new URL(metadata.authorization_endpoint);
+  url.searchParams.set("response_type", "code");
+  url.searchParams.set("client_id", clientId);
+  url.searchParams.set("redirect_uri", C.REDIRECT_URI);
+  url.searchParams.set("scope", scope);
+  url.searchParams.set("state", state);
+  url.searchParams.set("nonce", nonce);
+  url.searchParams.set("code_challenge", await sha256(codeVerifier));
+  url.searchParams.set("code_challenge_method", "S256");
+
+  return { url: url.toString(), state, nonce, codeVerifier };
+}
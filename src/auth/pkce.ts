@@ -0,0 +1,33 @@
+/**
+ * PKCE Helper Functions
+ */
+
+export function base64UrlEncode(arrayBuffer: ArrayBuffer) {
+  const uint8Array = new Uint8Array(arrayBuffer);
+  let base64 = btoa(String.fromCharCode(...uint8Array));
+  return base64.replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+export async function sha256(buffer: string) {
+  const data = new TextEncoder().encode(buffer);
+  const digest = await crypto.subtle.digest("SHA-256", data);
+  return base64UrlEncode(digest);
+}
+
+export function randomString(length = 43) {
+  const charset = "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789-._~";
+  let result = "";
+  const values = crypto.getRandomValues(new Uint8Array(length));
+  for (let i = 0; i < length; i++) result += charset[values[i] % charset.length];
+  return result;
+}
+
+/**
+ * Session Storage Helpers
+ */
+
+export function saveSession(key: string, value: any) { try { sessionStorage.setItem(key, JSON.stringify(value)); } catch {} }
+
+export function loadSession(key: string, fallback: any = null) {
+  try { const v = sessionStorage.getItem(key); return v ? JSON.parse(v) : fallback; } catch { return fallback; }
+}
@@ -0,0 +1,296 @@
+/**
+ * Step-up Authentication Engine
+ *
+ * Drives WSO2 IS app-native authentication (response_mode=direct) for
+ * sensitive actions:
+ * 1. startStepUp: POST the authorize request, get the first step
+ * 2. submitStep: POST the chosen authenticator's params to /oauth2/authn,
+ *    get the next step; repeated for multi-step flows and retries
+ * 3. completeStepUp: exchange the auth code once the flow succeeds and
+ *    validate the ID token against the nonce sent in step 1
+ *
+ * Each step lists the authenticators it accepts (email / SMS OTP, TOTP,
+ * passkey ...) with the params they need, so callers render whatever the
+ * server asks for instead of assuming one OTP step.
+ */
+
+import { OIDC_CONFIG as C } from "../config";
+import { SchemaError } from "../errors";
+import { discover, validateIdToken } from "./oidc";
+import { randomString } from "./pkce";
+
+export type FlowStatus = "INCOMPLETE" | "FAIL_INCOMPLETE" | "SUCCESS_COMPLETED" | "FAIL_COMPLETED";
+
+/**
+ * USER_PROMPT: the user types the params in
+ * INTERNAL_PROMPT: the app gathers them itself (passkey / WebAuthn)
+ * REDIRECTION_PROMPT: needs a browser redirect (federated IdP), not supported here
+ */
+export type PromptType = "USER_PROMPT" | "INTERNAL_PROMPT" | "REDIRECTION_PROMPT";
+
+export interface AuthenticatorParam {
+  param: string;
+  displayName: string;
+  type: string;
+  order: number;
+  confidential: boolean;
+}
+
+export interface StepAuthenticator {
+  authenticatorId: string;
+  /** Display name from IS, e.g. "Email OTP", "TOTP", "Passkey" */
+  name: string;
+  idp: string;
+  promptType: PromptType;
+  params: AuthenticatorParam[];
+  additionalData: Record<string, string>;
+}
+
+export interface StepUpMessage {
+  type: "INFO" | "ERROR";
+  message: string;
+}
+
+export interface StepUpFlow {
+  flowId: string;
+  status: FlowStatus;
+  clientId: string;
+  nonce: string;
+  /** Where the next step is posted */
+  authnUrl: string;
+  /** AUTHENTICATOR_PROMPT (one choice) or MULTI_OPTIONS_PROMPT */
+  stepType: string;
+  authenticators: StepAuthenticator[];
+  messages: StepUpMessage[];
+  /** Authorization code, set once status is SUCCESS_COMPLETED */
+  code?: string;
+}
+
+export interface StartOptions {
+  clientId: string;
+  scope?: string;
+  /** Pre-identifies the user so IS skips the identifier step */
+  username?: string;
+  /** RFC 9396 authorization_details binding the token to one transaction */
+  authorizationDetails?: object[];
+}
+
+const STATUSES: FlowStatus[] = ["INCOMPLETE", "FAIL_INCOMPLETE", "SUCCESS_COMPLETED", "FAIL_COMPLETED"];
+
+function parseAuthenticator(a: any): StepAuthenticator {
+  const metadata = a?.metadata || {};
+  const params: AuthenticatorParam[] = (Array.isArray(metadata.params) ? metadata.params : [])
+    .map((p: any, i: number) => ({
+      param: String(p.param),
+      displayName: String(p.displayName || p.param),
+      type: String(p.type || "STRING"),
+      order: typeof p.order === "number" ? p.order : i,
+      confidential: !!p.confidential,
+    }))
+    .sort((x: AuthenticatorParam, y: AuthenticatorParam) => x.order - y.order);
+
+  // Older IS versions only list requiredParams
+  if (!params.length && Array.isArray(a?.requiredParams)) {
+    a.requiredParams.forEach((p: string, i: number) => params.push({ param: p, displayName: p, type: "STRING", order: i, confidential: false }));
+  }
+
+  return {
+    authenticatorId: String(a.authenticatorId),
+    name: String(a.authenticator || a.authenticatorId),
+    idp: String(a.idp || "LOCAL"),
+    promptType: metadata.promptType || "USER_PROMPT",
+    params,
+    additionalData: metadata.additionalData || {},
+  };
+}
+
+/**
+ * Normalise an authorize / authn response into the flow state.
+ * Throws SchemaError when the response is not an app-native flow response.
+ */
+function parseFlowResponse(json: any, previous: Pick<StepUpFlow, "clientId" | "nonce" | "authnUrl"> & { flowId?: string }): StepUpFlow {
+  const missing: string[] = [];
+  const flowId = json?.flowId ?? previous.flowId;
+  if (typeof flowId !== "string") missing.push("flowId");
+  if (!STATUSES.includes(json?.flowStatus)) missing.push("flowStatus");
+
+  const status = json?.flowStatus as FlowStatus;
+  const step = json?.nextStep || {};
+  const authenticators = Array.isArray(step.authenticators) ? step.authenticators : [];
+  if ((status === "INCOMPLETE" || status === "FAIL_INCOMPLETE") && !authenticators.length) missing.push("nextStep.authenticators");
+  if (status === "SUCCESS_COMPLETED" && typeof json?.authData?.code !== "string") missing.push("authData.code");
+  if (missing.length) {
+    throw new SchemaError(`Unexpected authentication response: missing ${missing.join(", ")}`, missing);
+  }
+
+  const messages: StepUpMessage[] = (Array.isArray(step.messages) ? step.messages : [])
+    .concat(Array.isArray(json?.messages) ? json.messages : [])
+    .filter((m: any) => m?.message)
+    .map((m: any) => ({ type: m.type === "ERROR" ? "ERROR" : "INFO", message: String(m.message) }));
+  if (status === "FAIL_INCOMPLETE" && !messages.some((m) => m.type === "ERROR")) {
+    messages.push({ type: "ERROR", message: "Verification failed. Please try again." });
+  }
+  if (status === "FAIL_COMPLETED" && !messages.length) {
+    messages.push({ type: "ERROR", message: json?.message || "Authentication failed." });
+  }
+
+  const authn = (Array.isArray(json?.links) ? json.links : []).find((l: any) => l?.name === "authentication" || /\/authn/.test(l?.href || ""));
+
+  return {
+    flowId: String(flowId),
+    status,
+    clientId: previous.clientId,
+    nonce: previous.nonce,
+    authnUrl: authn?.href || previous.authnUrl,
+    stepType: String(step.stepType || "AUTHENTICATOR_PROMPT"),
+    authenticators: authenticators.map(parseAuthenticator),
+    messages,
+    code: json?.authData?.code,
+  };
+}
+
+async function postJson(url: string, body: BodyInit, contentType: string): Promise<any> {
+  const res = await fetch(url, {
+    method: "POST",
+    headers: { Accept: "application/json", "Content-Type": contentType },
+    body,
+    credentials: "include",
+  });
+  const json = await res.json().catch(() => null);
+  // FAIL_INCOMPLETE comes back as 4xx with a flow body; keep it
+  if (!res.ok && !json?.flowStatus) {
+    const detail = json?.description || json?.message || json?.error_description || "";
+    throw new Error(`Authentication request failed (${res.status})${detail ? `: ${detail}` : ""}`);
+  }
+  return json;
+}
+
+/**
+ * Begin an app-native authentication flow for a sensitive action
+ */
+export async function startStepUp({ clientId, scope = "openid internal_login profile", username, authorizationDetails }: StartOptions): Promise<StepUpFlow> {
+  const { authorization_endpoint } = await discover();
+  const nonce = randomString(32);
+
+  const params = new URLSearchParams({
+    client_id: clientId,
+    response_type: "code",
+    redirect_uri: C.REDIRECT_URI,
+    state: randomString(16),
+    scope,
+    nonce,
+    response_mode: "direct",
+  });
+  if (username) params.set("username", username);
+  if (authorizationDetails?.length) params.set("authorization_details", JSON.stringify(authorizationDetails));
+
+  const json = await postJson(authorization_endpoint, params.toString(), "application/x-www-form-urlencoded");
+  const authnUrl = new URL("/oauth2/authn", authorization_endpoint).toString();
+  return parseFlowResponse(json, { clientId, nonce, authnUrl });
+}
+
+function toBase64Url(buffer: ArrayBuffer | null): string | null {
+  if (!buffer) return null;
+  const base64 = btoa(String.fromCharCode(...new Uint8Array(buffer)));
+  return base64.replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+function fromBase64Url(value: string): ArrayBuffer {
+  let base64 = value.replace(/-/g, "+").replace(/_/g, "/");
+  while (base64.length % 4) base64 += "=";
+  return Uint8Array.from(atob(base64), (c) => c.charCodeAt(0)).buffer;
+}
+
+/**
+ * Passkey / FIDO step: run WebAuthn with the challenge IS sent and return the
+ * assertion in the shape the FIDO authenticator expects
+ */
+async function passkeyParams(authenticator: StepAuthenticator): Promise<Record<string, string>> {
+  const challengeData = authenticator.additionalData.challengeData;
+  if (!challengeData) throw new Error(`${authenticator.name} did not provide a challenge`);
+  if (!window.PublicKeyCredential) throw new Error("Passkeys are not supported in this browser");
+
+  const challenge = JSON.parse(atob(challengeData));
+  const options = challenge.publicKeyCredentialRequestOptions;
+  const credential = (await navigator.credentials.get({
+    publicKey: {
+      ...options,
+      challenge: fromBase64Url(options.challenge),
+      allowCredentials: (options.allowCredentials || []).map((c: any) => ({ ...c, id: fromBase64Url(c.id) })),
+    },
+  })) as PublicKeyCredential | null;
+  if (!credential) throw new Error("Passkey verification was cancelled");
+
+  const response = credential.response as AuthenticatorAssertionResponse;
+  return {
+    tokenResponse: JSON.stringify({
+      requestId: challenge.requestId,
+      credential: {
+        id: credential.id,
+        type: credential.type,
+        response: {
+          authenticatorData: toBase64Url(response.authenticatorData),
+          clientDataJSON: toBase64Url(response.clientDataJSON),
+          signature: toBase64Url(response.signature),
+          userHandle: toBase64Url(response.userHandle),
+        },
+        clientExtensionResults: credential.getClientExtensionResults(),
+      },
+    }),
+  };
+}
+
+/**
+ * Answer the current step with one of its authenticators.
+ * For USER_PROMPT authenticators `params` holds what the user entered;
+ * INTERNAL_PROMPT (passkey) params are gathered here.
+ */
+export async function submitStep(flow: StepUpFlow, authenticatorId: string, params: Record<string, string> = {}): Promise<StepUpFlow> {
+  const authenticator = flow.authenticators.find((a) => a.authenticatorId === authenticatorId);
+  if (!authenticator) throw new Error(`Authenticator ${authenticatorId} is not offered in this step`);
+  if (authenticator.promptType === "REDIRECTION_PROMPT") {
+    throw new Error(`${authenticator.name} requires a browser redirect and cannot be used here`);
+  }
+
+  const answer = authenticator.promptType === "INTERNAL_PROMPT" && authenticator.additionalData.challengeData
+    ? await passkeyParams(authenticator)
+    : params;
+
+  const body = JSON.stringify({
+    flowId: flow.flowId,
+    selectedAuthenticator: { authenticatorId, params: answer },
+  });
+  const json = await postJson(flow.authnUrl, body, "application/json");
+  return parseFlowResponse(json, flow);
+}
+
+/**
+ * Exchange the code of a completed flow for tokens, validating the ID token
+ */
+export async function completeStepUp(flow: StepUpFlow): Promise<any> {
+  if (flow.status !== "SUCCESS_COMPLETED" || !flow.code) {
+    throw new Error("Authentication has not completed");
+  }
+
+  const body = new URLSearchParams();
+  body.set("grant_type", "authorization_code");
+  body.set("code", flow.code);
+  body.set("redirect_uri", C.REDIRECT_URI);
+  body.set("client_id", flow.clientId);
+
+  const { token_endpoint } = await discover();
+  const res = await fetch(token_endpoint, {
+    method: "POST",
+    headers: { "Content-Type": "application/x-www-form-urlencoded" },
+    body,
+  });
+  if (!res.ok) {
+    const txt = await res.text().catch(() => "");
+    throw new Error(`Token exchange failed (${res.status}). ${txt}`);
+  }
+  const json = await res.json().catch(() => null);
+  if (!json) throw new Error("Token response not JSON.");
+
+  await validateIdToken(json.id_token, { clientId: flow.clientId, nonce: flow.nonce });
+  return json;
+}
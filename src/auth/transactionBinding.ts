@@ -0,0 +1,114 @@
+/**
+ * Transaction Binding
+ *
+ * A purchase step-up is requested with a Rich Authorization Request
+ * (RFC 9396): the `authorization_details` parameter describes exactly what
+ * is being bought (vehicle, quote, option, premium). IS shows it to the user
+ * and returns it with the issued token, both in the token response and as a
+ * claim of the JWT access token, so the token authorises that purchase only.
+ *
+ * Before calling the buy-insurance API the app checks the token it got back
+ * still describes the quote on screen. A fleet purchase is one step-up with
+ * one insurance_purchase entry per vehicle.
+ */
+
+import type { Quote, Vehicle } from "../api";
+import { TransactionBindingError } from "../errors";
+import { decodeJwt } from "./oidc";
+
+/** authorization_details type registered for the purchase API resource in IS */
+export const PURCHASE_DETAIL_TYPE = "insurance_purchase";
+
+export interface PurchaseAuthorizationDetail {
+  type: typeof PURCHASE_DETAIL_TYPE;
+  vehicleId: string;
+  registrationNumber: string;
+  quoteId: string;
+  optionId: string;
+  coverage: string;
+  premium: { amount: number; currency: string };
+  renewalOf?: string;
+}
+
+/**
+ * Purchase summary for the authorization request
+ * @param optionId - Chosen QuoteOption; the quote's recommended option when not given
+ */
+export function purchaseAuthorizationDetail(vehicle: Vehicle, quote: Quote, optionId?: string | null): PurchaseAuthorizationDetail {
+  const option = quote.options.find((o) => o.id === optionId) || quote.options.find((o) => o.name === quote.coverage) || quote.options[0];
+  const detail: PurchaseAuthorizationDetail = {
+    type: PURCHASE_DETAIL_TYPE,
+    vehicleId: vehicle.vehicleId,
+    registrationNumber: vehicle.registrationNumber,
+    quoteId: quote.id,
+    optionId: option?.id || quote.id,
+    coverage: option?.name || quote.coverage,
+    premium: { amount: option?.premium ?? quote.premium, currency: vehicle.currency },
+  };
+  if (quote.renewalOf) detail.renewalOf = quote.renewalOf;
+  return detail;
+}
+
+/**
+ * authorization_details granted with a token: from the token response, or
+ * the access token's claim when the response omits them
+ */
+export function grantedAuthorizationDetails(tokens: { access_token?: string; authorization_details?: unknown }): any[] {
+  if (Array.isArray(tokens.authorization_details)) return tokens.authorization_details;
+  const claim = decodeJwt(tokens.access_token)?.payload?.authorization_details;
+  return Array.isArray(claim) ? claim : [];
+}
+
+function mismatchedFields(detail: any, expected: PurchaseAuthorizationDetail): string[] {
+  const mismatched: string[] = [];
+  (["vehicleId", "quoteId", "optionId"] as const).forEach((k) => {
+    if (detail[k] !== expected[k]) mismatched.push(k);
+  });
+  if (Number(detail.premium?.amount) !== expected.premium.amount) mismatched.push("premium.amount");
+  if (detail.premium?.currency !== expected.premium.currency) mismatched.push("premium.currency");
+  if ((detail.renewalOf || undefined) !== expected.renewalOf) mismatched.push("renewalOf");
+  return mismatched;
+}
+
+/**
+ * Throw unless the token grants exactly the expected purchase
+ * @throws TransactionBindingError listing the fields that differ
+ */
+export function assertPurchaseBinding(tokens: { access_token?: string; authorization_details?: unknown }, expected: PurchaseAuthorizationDetail) {
+  const granted = grantedAuthorizationDetails(tokens).filter((d) => d?.type === PURCHASE_DETAIL_TYPE);
+  if (granted.length !== 1) {
+    throw new TransactionBindingError(
+      granted.length ? "Authorization covers more than one purchase" : "Authorization does not include the purchase details",
+      ["authorization_details"]
+    );
+  }
+
+  const mismatched = mismatchedFields(granted[0], expected);
+  if (mismatched.length) {
+    throw new TransactionBindingError(`Authorization does not match this quote (${mismatched.join(", ")})`, mismatched);
+  }
+}
+
+/**
+ * Throw unless the token grants exactly the expected set of purchases, one per vehicle
+ * @throws TransactionBindingError listing the vehicle fields that differ
+ */
+export function assertBatchPurchaseBinding(tokens: { access_token?: string; authorization_details?: unknown }, expected: PurchaseAuthorizationDetail[]) {
+  const granted = grantedAuthorizationDetails(tokens).filter((d) => d?.type === PURCHASE_DETAIL_TYPE);
+  if (granted.length !== expected.length) {
+    throw new TransactionBindingError(
+      `Authorization covers ${granted.length} purchase(s), expected ${expected.length}`,
+      ["authorization_details"]
+    );
+  }
+
+  const mismatched: string[] = [];
+  expected.forEach((e) => {
+    const detail = granted.find((d) => d.vehicleId === e.vehicleId);
+    const fields = detail ? mismatchedFields(detail, e) : ["vehicleId"];
+    mismatched.push(...fields.map((f) => `${e.registrationNumber}.${f}`));
+  });
+  if (mismatched.length) {
+    throw new TransactionBindingError(`Authorization does not match these quotes (${mismatched.join(", ")})`, mismatched);
+  }
+}
@@ -0,0 +1,140 @@
+/**
+ * Chat Store
+ *
+ * Chat conversations are kept in localStorage per user (keyed by the `sub`
+ * claim) so they survive reloads, and are removed on logout. Each request to
+ * the chat server carries the conversation ID and its most recent turns so
+ * follow-up questions keep their context. Helpers return new objects rather
+ * than mutating, so the list can live in React state.
+ */
+
+import type { Vehicle } from "./api";
+
+/**
+ * ChatMessage represents a single message in a conversation
+ * @property id - Unique identifier for the message
+ * @property role - Either "user" for user messages or "assistant" for bot responses
+ * @property content - The text content of the message (supports markdown)
+ * @property timestamp - When the message was created
+ * @property hadTransactions - Optional flag indicating if response includes transaction data
+ * @property vehicles - Vehicles from the response's policyInfoData that the reply talks about
+ * @property progress - Tool call under way while the reply streams (e.g. "Fetching your policies...")
+ * @property streaming - Reply is still arriving
+ * @property cancelled - User stopped the reply before it finished
+ */
+export interface ChatMessage {
+  id: string;
+  role: "user" | "assistant";
+  content: string;
+  timestamp: Date;
+  hadTransactions?: boolean;
+  vehicles?: Vehicle[];
+  progress?: string;
+  streaming?: boolean;
+  cancelled?: boolean;
+}
+
+export interface Conversation {
+  id: string;
+  /** First question asked, shortened */
+  title: string;
+  messages: ChatMessage[];
+  createdAt: number;
+  updatedAt: number;
+}
+
+/** A turn as sent to the chat server */
+export interface ChatTurn {
+  role: "user" | "assistant";
+  content: string;
+}
+
+const STORAGE_PREFIX = "chatHistory:";
+// Oldest conversations are dropped beyond this
+const MAX_CONVERSATIONS = 20;
+// Messages sent with each request as context
+const CONTEXT_MESSAGES = 10;
+const TITLE_LENGTH = 60;
+
+export function newConversationId(): string {
+  return crypto.randomUUID();
+}
+
+export function loadConversations(sub: string): Conversation[] {
+  try {
+    const raw = JSON.parse(localStorage.getItem(STORAGE_PREFIX + sub) || "[]");
+    if (!Array.isArray(raw)) return [];
+    return raw.map((c: Conversation) => ({
+      ...c,
+      // A reply cut off by a reload stays as far as it got
+      messages: c.messages.map((m) => ({
+        ...m,
+        timestamp: new Date(m.timestamp),
+        ...(m.streaming ? { streaming: false, progress: undefined, cancelled: true } : {}),
+      })),
+    }));
+  } catch {
+    return [];
+  }
+}
+
+export function saveConversations(sub: string, conversations: Conversation[]) {
+  try {
+    if (conversations.length) localStorage.setItem(STORAGE_PREFIX + sub, JSON.stringify(conversations));
+    else localStorage.removeItem(STORAGE_PREFIX + sub);
+  } catch {}
+}
+
+/**
+ * Remove every user's stored conversations from this browser
+ */
+export function clearChatHistory() {
+  try {
+    Object.keys(localStorage)
+      .filter((key) => key.startsWith(STORAGE_PREFIX))
+      .forEach((key) => localStorage.removeItem(key));
+  } catch {}
+}
+
+function conversationTitle(messages: ChatMessage[]): string {
+  const first = messages.find((m) => m.role === "user")?.content.trim().replace(/\s+/g, " ") || "New conversation";
+  return first.length > TITLE_LENGTH ? `${first.slice(0, TITLE_LENGTH - 1)}…` : first;
+}
+
+/**
+ * Apply an update to one conversation's messages, creating the conversation
+ * on its first message. The list stays most recently updated first.
+ */
+export function withMessages(
+  conversations: Conversation[],
+  id: string,
+  update: (messages: ChatMessage[]) => ChatMessage[],
+  now = Date.now()
+): Conversation[] {
+  const existing = conversations.find((c) => c.id === id);
+  const messages = update(existing ? existing.messages : []);
+  if (!existing && !messages.length) return conversations;
+
+  const updated: Conversation = {
+    id,
+    createdAt: existing ? existing.createdAt : now,
+    updatedAt: now,
+    title: conversationTitle(messages),
+    messages,
+  };
+  return [updated, ...conversations.filter((c) => c.id !== id)].slice(0, MAX_CONVERSATIONS);
+}
+
+export function withoutConversation(conversations: Conversation[], id: string): Conversation[] {
+  return conversations.filter((c) => c.id !== id);
+}
+
+/**
+ * Most recent finished turns of a conversation, for the chat server's context
+ */
+export function recentTurns(messages: ChatMessage[]): ChatTurn[] {
+  return messages
+    .filter((m) => m.content.trim() && !m.streaming)
+    .slice(-CONTEXT_MESSAGES)
+    .map((m) => ({ role: m.role, content: m.content }));
+}
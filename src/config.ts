@@ -1,12 +1,11 @@
 /**
  * OIDC: WSO2 Identity Server
- * If your IS runs on 9443 (direct) instead of 9444, change the port numbers below.
+ * If your IS runs on 9443 (direct) instead of 9444, change the port number below.
+ * Endpoints and signing keys are discovered from
+ * {ISSUER}/.well-known/openid-configuration; ID tokens must carry this issuer.
  */
 export const OIDC_CONFIG = {
-  AUTHORIZATION_ENDPOINT: "https://localhost:9444/oauth2/authorize",
-  TOKEN_ENDPOINT: "https://localhost:9444/oauth2/token",
-  USERINFO_ENDPOINT: "https://localhost:9444/oauth2/userinfo",
-  ENDSESSION_ENDPOINT: "https://localhost:9444/oidc/logout",
+  ISSUER: "https://localhost:9444/oauth2/token",
   CLIENT_ID: "AqB3RGyqMl0xW342z9laa1wy3YEa",
   CLIENT_ID2: "E0bqe3TldZqJ3befDzav0OQkPtIa",
   REDIRECT_URI: "http://localhost:5173",
@@ -22,6 +21,39 @@ export const API_CONFIG = {
   GET_VEHICLES_URL: "https://localhost:8243/vehicles/1/getVehicles",
   ADD_VEHICLE_URL: "https://localhost:8243/vehicleapi/1.0.0/vehicles/add",
   GET_VEHICLE_DETAIL_URL: "https://localhost:8243/vehicleapi/1.0.0/vehicles/{id}",
+  UPDATE_VEHICLE_URL: "https://localhost:8243/vehicleapi/1.0.0/vehicles/{id}",
+  DELETE_VEHICLE_URL: "https://localhost:8243/vehicleapi/1.0.0/vehicles/{id}",
   GET_QUOTE_URL: "https://localhost:8243/motorinsurancequoteapi/2/quote",
-  BUY_INSURANCE_URL: "https://localhost:8243/motorinsurancepolicyapi/2/buy-insurance"
+  BUY_INSURANCE_URL: "https://localhost:8243/motorinsurancepolicyapi/2/buy-insurance",
+  // Give up waiting for buy-insurance after this long and reconcile instead
+  PURCHASE_TIMEOUT_MS: 20000
+};
+
+/**
+ * Demo mode: vehicles, quotes and purchases are served by an in-memory
+ * mock backend (src/mockBackend.ts) instead of APIM, and the UI shows a
+ * "Demo data" banner. Sign-in still goes through WSO2 IS.
+ */
+export const DEMO_MODE = false;
+
+/**
+ * Policy lifecycle
+ * RENEWAL_WINDOW_DAYS: how many days before insuredUntil a policy is flagged
+ * for renewal and a renewal quote can be requested.
+ */
+export const POLICY_CONFIG = {
+  RENEWAL_WINDOW_DAYS: 30
+};
+
+/**
+ * Money display
+ * DEFAULT_LOCALE: used until the userinfo `locale` claim is known.
+ * CONVERSION_TABLE: exchange rates for totalling amounts in different
+ * currencies, as units of `base` per unit of each currency, e.g.
+ * { base: "LKR", rates: { USD: 300 } }. Without one, mixed currencies are
+ * never added together.
+ */
+export const MONEY_CONFIG = {
+  DEFAULT_LOCALE: "en-US",
+  CONVERSION_TABLE: null as { base: string; rates: Record<string, number> } | null
 };
@@ -0,0 +1,18 @@
+/**
+ * File Download
+ *
+ * Saves generated text (policy summaries, exports) as a file through a
+ * temporary object URL.
+ */
+
+export function downloadFile(filename: string, content: string, type: string) {
+  const blob = new Blob([content], { type });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  a.remove();
+  URL.revokeObjectURL(url);
+}
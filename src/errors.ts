@@ -0,0 +1,155 @@
+/**
+ * API Errors
+ *
+ * Typed errors thrown by the API client so the UI can branch on the failure
+ * kind instead of parsing response bodies. Each carries the HTTP status and,
+ * when present, the APIM fault code / message / description.
+ */
+
+export interface ApiFault {
+  code?: string;
+  message?: string;
+  description?: string;
+}
+
+export class ApiError extends Error {
+  status: number;
+  code?: string;
+  description?: string;
+
+  constructor(message: string, status: number, fault: ApiFault = {}) {
+    super(message);
+    this.name = "ApiError";
+    this.status = status;
+    this.code = fault.code;
+    this.description = fault.description;
+  }
+}
+
+/** 401 / 403: token missing, expired, revoked or lacking scope */
+export class AuthError extends ApiError {
+  constructor(message: string, status: number, fault?: ApiFault) {
+    super(message, status, fault);
+    this.name = "AuthError";
+  }
+}
+
+/** 429: APIM throttling policy hit */
+export class ThrottledError extends ApiError {
+  /** Seconds until the API may be called again, when the gateway says so */
+  retryAfter?: number;
+
+  constructor(message: string, status: number, fault?: ApiFault, retryAfter?: number) {
+    super(message, status, fault);
+    this.name = "ThrottledError";
+    this.retryAfter = retryAfter;
+  }
+}
+
+/** 400 / 422: request rejected by the backend */
+export class ValidationError extends ApiError {
+  constructor(message: string, status: number, fault?: ApiFault) {
+    super(message, status, fault);
+    this.name = "ValidationError";
+  }
+}
+
+/** 404: resource (vehicle, quote, policy) does not exist */
+export class NotFoundError extends ApiError {
+  constructor(message: string, status: number, fault?: ApiFault) {
+    super(message, status, fault);
+    this.name = "NotFoundError";
+  }
+}
+
+/** Request never got a response (offline, CORS, TLS, DNS) */
+export class NetworkError extends ApiError {
+  constructor(message: string) {
+    super(message, 0);
+    this.name = "NetworkError";
+  }
+}
+
+/** No response within the request's time limit; the server may still have acted on it */
+export class TimeoutError extends NetworkError {
+  constructor(message: string) {
+    super(message);
+    this.name = "TimeoutError";
+  }
+}
+
+/** Response parsed but does not match the expected shape */
+export class SchemaError extends Error {
+  /** Names of the missing or malformed fields */
+  fields: string[];
+
+  constructor(message: string, fields: string[]) {
+    super(message);
+    this.name = "SchemaError";
+    this.fields = fields;
+  }
+}
+
+/** ID token or provider metadata failed OIDC validation; the tokens must not be used */
+export class IdTokenError extends Error {
+  /** Which check failed, e.g. "signature", "iss", "aud", "exp", "nonce" */
+  check: string;
+
+  constructor(message: string, check: string) {
+    super(message);
+    this.name = "IdTokenError";
+    this.check = check;
+  }
+}
+
+/** A step-up token does not authorise the transaction it is about to be used for */
+export class TransactionBindingError extends Error {
+  /** Transaction fields that differ between the token and the request */
+  fields: string[];
+
+  constructor(message: string, fields: string[]) {
+    super(message);
+    this.name = "TransactionBindingError";
+    this.fields = fields;
+  }
+}
+
+/** Amounts in different currencies were to be added up without exchange rates for them */
+export class MixedCurrencyError extends Error {
+  /** Currencies involved */
+  currencies: string[];
+
+  constructor(message: string, currencies: string[]) {
+    super(message);
+    this.name = "MixedCurrencyError";
+    this.currencies = currencies;
+  }
+}
+
+/**
+ * User-facing message for an error thrown by the API client
+ * @param e - Caught error
+ * @param action - What was being attempted, e.g. "Failed to get quote"
+ */
+export function describeError(e: unknown, action: string): string {
+  if (e instanceof AuthError) {
+    return e.status === 403
+      ? `${action}: you are not allowed to perform this action.`
+      : "Your session has expired. Please sign in again.";
+  }
+  if (e instanceof ThrottledError) {
+    return e.retryAfter
+      ? `Too many requests. Please retry in ${e.retryAfter} seconds.`
+      : "Too many requests. Please retry shortly.";
+  }
+  if (e instanceof TimeoutError) {
+    return `${action}: the server did not respond in time.`;
+  }
+  if (e instanceof NetworkError) {
+    return `${action}: could not reach the server. Check your connection and try again.`;
+  }
+  if (e instanceof ApiError) {
+    return `${action}: ${e.description || e.message}`;
+  }
+  return `${action}: ${e instanceof Error ? e.message : String(e)}`;
+}
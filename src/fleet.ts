@@ -0,0 +1,122 @@
+/**
+ * Fleet Operations
+ *
+ * Quoting and buying cover for several vehicles at once, for business
+ * customers insuring vans and trucks. Every vehicle is still quoted and bought
+ * through the single-vehicle APIs, so one failure does not stop the rest and
+ * results are reported per vehicle. The purchase is covered by one step-up
+ * whose authorization_details hold one insurance_purchase entry per vehicle
+ * (see ./auth/transactionBinding).
+ */
+
+import type { InsurancePolicy, Quote, QuoteOption, Vehicle } from "./api";
+import { isRenewalDue } from "./renewal";
+import { isQuoteExpired, recommendedOption } from "./quoteStore";
+
+export type FleetItemStatus =
+  | "selected"
+  | "skipped"
+  | "quoting"
+  | "quoted"
+  | "quote_failed"
+  | "purchasing"
+  | "purchased"
+  | "purchase_failed"
+  /** buy-insurance got no answer and the vehicle did not show the new cover */
+  | "unconfirmed";
+
+export interface FleetItem {
+  vehicle: Vehicle;
+  status: FleetItemStatus;
+  quote?: Quote;
+  policy?: InsurancePolicy;
+  /** Why the vehicle was skipped or failed */
+  error?: string;
+  /** Kept across retries of the same quote and option so the backend can drop duplicates */
+  idempotencyKey?: string;
+  /** Option the idempotency key was issued for; another option gets a new key */
+  purchaseOptionId?: string;
+  /** Cover end date before the purchase; a change means it went through */
+  insuredUntilBefore?: string;
+}
+
+/** Quote requests in flight at once */
+export const FLEET_QUOTE_CONCURRENCY = 3;
+
+/**
+ * Why the vehicle cannot be quoted in a batch, or null when it can
+ */
+export function fleetIneligibility(vehicle: Vehicle): string | null {
+  if (vehicle.insuranceStatus.isInsured && !isRenewalDue(vehicle)) return "Already insured";
+  if (!vehicle.insuranceStatus.isInsured && !vehicle.actionsAvailable.canGetQuote) return "Quotes not available";
+  return null;
+}
+
+/**
+ * Option bought for a vehicle: the batch's coverage tier, or the quote's
+ * recommended option when no tier is chosen or the quote does not offer it
+ */
+export function fleetOption(quote: Quote, tier: string): QuoteOption {
+  return (tier && quote.options.find((o) => o.tier === tier)) || recommendedOption(quote);
+}
+
+/**
+ * Coverage tiers offered across the quoted vehicles, for the batch tier choice
+ */
+export function fleetTiers(items: FleetItem[]): { tier: string; name: string }[] {
+  const seen = new Map<string, string>();
+  items.forEach((i) => i.quote?.options.forEach((o) => seen.set(o.tier, o.name)));
+  return Array.from(seen, ([tier, name]) => ({ tier, name }));
+}
+
+/**
+ * Items that can be bought now: quoted (or a failed attempt at the same
+ * quote) and the quote still valid
+ */
+export function purchasableItems(items: FleetItem[], now = Date.now()): FleetItem[] {
+  return items.filter((i) =>
+    !!i.quote && (i.status === "quoted" || i.status === "purchase_failed") && !isQuoteExpired(i.quote, now)
+  );
+}
+
+export interface PremiumTotal {
+  currency: string;
+  amount: number;
+  vehicles: number;
+}
+
+/**
+ * Aggregated premium of the given items, one total per currency
+ */
+export function fleetPremiumTotals(items: FleetItem[], tier: string): PremiumTotal[] {
+  const totals = new Map<string, PremiumTotal>();
+  items.forEach((i) => {
+    if (!i.quote) return;
+    const currency = i.vehicle.currency;
+    const total = totals.get(currency) || { currency, amount: 0, vehicles: 0 };
+    total.amount += fleetOption(i.quote, tier).premium;
+    total.vehicles += 1;
+    totals.set(currency, total);
+  });
+  return Array.from(totals.values());
+}
+
+/**
+ * Run `fn` over `items` with at most `limit` calls in flight; results keep the input order
+ */
+export async function settleWithLimit<T, R>(items: T[], limit: number, fn: (item: T) => Promise<R>): Promise<PromiseSettledResult<R>[]> {
+  const results: PromiseSettledResult<R>[] = new Array(items.length);
+  let next = 0;
+  async function worker() {
+    while (next < items.length) {
+      const index = next++;
+      try {
+        results[index] = { status: "fulfilled", value: await fn(items[index]) };
+      } catch (reason) {
+        results[index] = { status: "rejected", reason };
+      }
+    }
+  }
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+}
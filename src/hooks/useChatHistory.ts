@@ -0,0 +1,66 @@
+/**
+ * useChatHistory - the signed-in user's chat conversations
+ *
+ * Conversations are loaded for the user's `sub` and written back on every
+ * change. Without a `sub` (userinfo not loaded yet) the open conversation
+ * is kept in memory only. A new conversation is only stored once it has
+ * its first message.
+ */
+
+import { useEffect, useState } from "react";
+import { ChatMessage, Conversation, loadConversations, saveConversations, newConversationId, withMessages, withoutConversation } from "../chatStore";
+
+export function useChatHistory(userId: string | null) {
+  // Conversations together with the user they belong to, so one user's list is never saved under another
+  const [history, setHistory] = useState<{ userId: string | null; conversations: Conversation[] }>({ userId: null, conversations: [] });
+  const [activeId, setActiveId] = useState(newConversationId);
+
+  useEffect(() => {
+    setHistory((h) => ({
+      userId,
+      // A conversation started before userinfo arrived is kept and stored from now on
+      conversations: userId ? [...(h.userId ? [] : h.conversations), ...loadConversations(userId)] : [],
+    }));
+    if (!userId) setActiveId(newConversationId());
+  }, [userId]);
+
+  useEffect(() => {
+    if (history.userId) saveConversations(history.userId, history.conversations);
+  }, [history]);
+
+  const { conversations } = history;
+  const messages = conversations.find((c) => c.id === activeId)?.messages || [];
+
+  /**
+   * Update the messages of a conversation; replies keep writing to the
+   * conversation they were asked in
+   */
+  function updateMessages(conversationId: string, update: (messages: ChatMessage[]) => ChatMessage[]) {
+    setHistory((h) => ({ ...h, conversations: withMessages(h.conversations, conversationId, update) }));
+  }
+
+  function startConversation() {
+    setActiveId(newConversationId());
+  }
+
+  function deleteConversation(conversationId: string) {
+    setHistory((h) => ({ ...h, conversations: withoutConversation(h.conversations, conversationId) }));
+    if (conversationId === activeId) startConversation();
+  }
+
+  function clearHistory() {
+    setHistory((h) => ({ ...h, conversations: [] }));
+    startConversation();
+  }
+
+  return {
+    conversations,
+    activeId,
+    messages,
+    updateMessages,
+    openConversation: setActiveId,
+    startConversation,
+    deleteConversation,
+    clearHistory,
+  };
+}
@@ -0,0 +1,226 @@
+/**
+ * useFleet - multi-vehicle selection, bulk quotes and batch purchase
+ *
+ * Flow:
+ * 1. toggleFleetVehicle: build the batch (selection survives paging)
+ * 2. requestFleetQuotes: quote every eligible vehicle, a few at a time
+ * 3. startFleetPurchase: one step-up bound to every vehicle / quote / option /
+ *    premium in the batch, then buyInsurance per vehicle with the same
+ *    transaction token
+ * Each vehicle keeps its own status, so a failure is reported against that
+ * vehicle and the others go ahead. A purchase whose response was lost is
+ * checked against the vehicle's policy status instead of being repeated.
+ */
+
+import { useEffect, useState } from "react";
+import { buyInsurance, getQuote, getVehicleDetail, InsurancePolicy, Vehicle } from "../api";
+import { ApiError, NetworkError, describeError } from "../errors";
+import { isRenewalDue } from "../renewal";
+import { TokenSet } from "../session";
+import { purchaseAuthorizationDetail, assertBatchPurchaseBinding, PurchaseAuthorizationDetail } from "../auth/transactionBinding";
+import { purchaseApplied } from "../purchaseStore";
+import { FleetItem, FLEET_QUOTE_CONCURRENCY, fleetIneligibility, fleetOption, purchasableItems, settleWithLimit } from "../fleet";
+import { useStepUp } from "./useStepUp";
+
+interface FleetOptions {
+  signedIn: boolean;
+  onError: (message: string) => void;
+  /** One vehicle in the batch was bought; `refreshed` is null when the re-fetch failed */
+  onPurchased: (vehicleId: string, refreshed: Vehicle | null) => void;
+}
+
+export function useFleet({ signedIn, onError, onPurchased }: FleetOptions) {
+  const stepUp = useStepUp();
+  // vehicleId -> item, in selection order
+  const [items, setItems] = useState<Record<string, FleetItem>>({});
+  // Coverage tier bought for every vehicle; "" for each quote's recommended option
+  const [tier, setTier] = useState("");
+  const [quoting, setQuoting] = useState(false);
+  const [purchasing, setPurchasing] = useState(false);
+  const [checking, setChecking] = useState(false);
+
+  useEffect(() => {
+    if (!signedIn) { setItems({}); setTier(""); }
+  }, [signedIn]);
+
+  const list = Object.keys(items).map((id) => items[id]);
+  const busy = quoting || purchasing || checking || stepUp.active;
+
+  function patchItem(vehicleId: string, patch: Partial<FleetItem>) {
+    setItems((c) => c[vehicleId] ? { ...c, [vehicleId]: { ...c[vehicleId], ...patch } } : c);
+  }
+
+  function toggleFleetVehicle(vehicle: Vehicle) {
+    if (busy) return;
+    setItems((c) => {
+      if (!c[vehicle.vehicleId]) return { ...c, [vehicle.vehicleId]: { vehicle, status: "selected" } };
+      const { [vehicle.vehicleId]: _removed, ...rest } = c;
+      return rest;
+    });
+  }
+
+  /**
+   * Take in an edited vehicle; its quote was priced on the old details, so it starts over
+   */
+  function updateFleetVehicle(vehicle: Vehicle) {
+    setItems((c) => c[vehicle.vehicleId] ? { ...c, [vehicle.vehicleId]: { vehicle, status: "selected" } } : c);
+  }
+
+  function removeFromFleet(vehicleId: string) {
+    setItems((c) => {
+      const { [vehicleId]: _removed, ...rest } = c;
+      return rest;
+    });
+  }
+
+  function clearFleet() {
+    if (busy) return;
+    setItems({});
+  }
+
+  async function requestFleetQuotes() {
+    const targets = list.filter((i) => i.status !== "purchased");
+    if (!targets.length) return;
+    onError("");
+    setQuoting(true);
+
+    const eligible = targets.filter((i) => {
+      const reason = fleetIneligibility(i.vehicle);
+      if (reason) patchItem(i.vehicle.vehicleId, { status: "skipped", error: reason, quote: undefined });
+      return !reason;
+    });
+
+    await settleWithLimit(eligible, FLEET_QUOTE_CONCURRENCY, async ({ vehicle }) => {
+      patchItem(vehicle.vehicleId, { status: "quoting", error: undefined });
+      try {
+        const renewal = vehicle.insuranceStatus.isInsured && isRenewalDue(vehicle);
+        const quote = await getQuote(vehicle.vehicleId, renewal ? vehicle.insuranceStatus.policyId : undefined);
+        // A new quote is a new purchase: it gets a fresh idempotency key
+        patchItem(vehicle.vehicleId, { status: "quoted", quote, idempotencyKey: undefined, purchaseOptionId: undefined });
+      } catch (e) {
+        patchItem(vehicle.vehicleId, { status: "quote_failed", error: describeError(e, "Failed to get quote"), quote: undefined });
+      }
+    });
+    setQuoting(false);
+  }
+
+  function startFleetPurchase() {
+    if (busy) return;
+    const targets = purchasableItems(list).map((i) => {
+      const optionId = fleetOption(i.quote!, tier).id;
+      const retry = !!i.idempotencyKey && i.purchaseOptionId === optionId;
+      return {
+        ...i,
+        idempotencyKey: retry ? i.idempotencyKey : crypto.randomUUID(),
+        purchaseOptionId: optionId,
+        // A retry keeps the cover end date from before the first attempt
+        insuredUntilBefore: retry ? i.insuredUntilBefore : i.vehicle.insuranceStatus.insuredUntil,
+      };
+    });
+    if (!targets.length) {
+      onError("None of the selected vehicles has a valid quote to buy.");
+      return;
+    }
+    onError("");
+    targets.forEach((t) => patchItem(t.vehicle.vehicleId, { idempotencyKey: t.idempotencyKey, purchaseOptionId: t.purchaseOptionId, insuredUntilBefore: t.insuredUntilBefore }));
+
+    const bindings = targets.map((t) => purchaseAuthorizationDetail(t.vehicle, t.quote!, t.purchaseOptionId));
+    return stepUp.request((tokens) => completeFleetPurchase(tokens, targets, bindings), bindings);
+  }
+
+  async function completeFleetPurchase(tokens: TokenSet, targets: FleetItem[], bindings: PurchaseAuthorizationDetail[]) {
+    // What was signed must be what is bought, for every vehicle
+    assertBatchPurchaseBinding(tokens, bindings);
+
+    setPurchasing(true);
+    try {
+      // One at a time: the transaction token is shared and results are reported as they come
+      for (let index = 0; index < targets.length; index++) {
+        await purchaseOne(targets[index], bindings[index]);
+      }
+    } finally {
+      setPurchasing(false);
+    }
+  }
+
+  function purchased(target: FleetItem, policy: InsurancePolicy, refreshed: Vehicle | null) {
+    patchItem(target.vehicle.vehicleId, { status: "purchased", policy, vehicle: refreshed || target.vehicle, error: undefined });
+    onPurchased(target.vehicle.vehicleId, refreshed);
+  }
+
+  async function purchaseOne(target: FleetItem, binding: PurchaseAuthorizationDetail) {
+    const { vehicle } = target;
+    patchItem(vehicle.vehicleId, { status: "purchasing", error: undefined });
+
+    let policy: InsurancePolicy;
+    try {
+      policy = await buyInsurance(vehicle.vehicleId, target.quote!.id, binding.optionId, target.idempotencyKey);
+    } catch (e) {
+      // Timeout, dropped connection or gateway failure: it may have gone through
+      if (e instanceof NetworkError || (e instanceof ApiError && e.status >= 500)) {
+        await confirmOne(target);
+        return;
+      }
+      patchItem(vehicle.vehicleId, { status: "purchase_failed", error: describeError(e, "Insurance purchase failed") });
+      return;
+    }
+
+    let refreshed: Vehicle | null = null;
+    try {
+      refreshed = (await getVehicleDetail(vehicle.vehicleId)).vehicle;
+    } catch {
+      // Bought; the list keeps the old copy until the next fetch
+    }
+    purchased(target, policy, refreshed);
+  }
+
+  /**
+   * Learn the outcome of a purchase whose response was lost from the vehicle's policy status
+   */
+  async function confirmOne(target: FleetItem) {
+    const { vehicle } = target;
+    try {
+      const detail = await getVehicleDetail(vehicle.vehicleId);
+      if (purchaseApplied(target.insuredUntilBefore, detail)) {
+        // The newest policy is the one just bought (for a renewal, the PendingRenewal one)
+        const policy = detail.policyHistory[0] || detail.policy;
+        if (policy) purchased(target, policy, detail.vehicle);
+        // Applied but not readable yet: left for the next status check
+        else patchItem(vehicle.vehicleId, { status: "unconfirmed", error: "The purchase went through, but its policy is not available yet." });
+      } else {
+        // Not applied: a retry is safe and reuses the same idempotency key
+        patchItem(vehicle.vehicleId, { status: "purchase_failed", error: "The purchase did not go through. You can try again." });
+      }
+    } catch (e) {
+      patchItem(vehicle.vehicleId, { status: "unconfirmed", error: describeError(e, "Could not confirm the purchase") });
+    }
+  }
+
+  async function checkUnconfirmed() {
+    setChecking(true);
+    try {
+      for (const item of list.filter((i) => i.status === "unconfirmed")) await confirmOne(item);
+    } finally {
+      setChecking(false);
+    }
+  }
+
+  return {
+    stepUp,
+    items: list,
+    selectedIds: Object.keys(items),
+    tier,
+    setTier,
+    busy,
+    quoting,
+    purchasing,
+    checking,
+    toggleFleetVehicle,
+    updateFleetVehicle,
+    removeFromFleet,
+    clearFleet,
+    requestFleetQuotes,
+    startFleetPurchase,
+    checkUnconfirmed,
+  };
+}
@@ -0,0 +1,36 @@
+/**
+ * usePolicyDetail - policy detail panel for the selected vehicle
+ */
+
+import { useEffect, useState } from "react";
+import { getVehicleDetail, Vehicle, VehicleDetail } from "../api";
+import { describeError } from "../errors";
+
+export function usePolicyDetail(selectedVehicle: Vehicle | null, onError: (message: string) => void) {
+  const [policyDetail, setPolicyDetail] = useState<VehicleDetail | null>(null);
+  const [policyLoading, setPolicyLoading] = useState(false);
+
+  async function viewPolicy(vehicle: Vehicle) {
+    setPolicyLoading(true);
+    onError("");
+    try {
+      setPolicyDetail(await getVehicleDetail(vehicle.vehicleId));
+    } catch (e: any) {
+      onError(describeError(e, "Failed to load policy"));
+    } finally {
+      setPolicyLoading(false);
+    }
+  }
+
+  // Policy detail belongs to the selected vehicle only
+  useEffect(() => {
+    if (policyDetail && policyDetail.vehicle.vehicleId !== selectedVehicle?.vehicleId) setPolicyDetail(null);
+  }, [selectedVehicle, policyDetail]);
+
+  return {
+    policyDetail,
+    policyLoading,
+    viewPolicy,
+    closePolicy: () => setPolicyDetail(null),
+  };
+}
@@ -0,0 +1,190 @@
+/**
+ * usePurchase - step-up authentication and insurance purchase
+ *
+ * Flow:
+ * 1. startPurchase: step-up with the transaction client (see useStepUp),
+ *    bound to the vehicle / quote / option / premium on screen
+ * 2. once the step-up completes, check the token grants that exact purchase,
+ *    then buyInsurance
+ * 3. re-fetch the vehicle so its insurance status and actions come from the
+ *    backend, report it through onPurchased and expose the confirmation
+ *
+ * The purchase is persisted (../purchaseStore) from the moment it starts. A
+ * reload resumes an open step-up; a reload, timeout or network failure after
+ * buyInsurance was sent reconciles against the vehicle's policy status
+ * instead of buying again.
+ */
+
+import { useEffect, useRef, useState } from "react";
+import { buyInsurance, getVehicleDetail, Vehicle, Quote, InsurancePolicy, VehicleDetail } from "../api";
+import { ApiError, NetworkError, describeError } from "../errors";
+import { isQuoteExpired } from "../quoteStore";
+import { TokenSet } from "../session";
+import { purchaseAuthorizationDetail, assertPurchaseBinding } from "../auth/transactionBinding";
+import { PendingPurchase, loadPendingPurchase, savePendingPurchase, beginPurchase, purchaseApplied } from "../purchaseStore";
+import { PurchaseConfirmation } from "../policySummary";
+import { useStepUp } from "./useStepUp";
+
+interface PurchaseOptions {
+  signedIn: boolean;
+  selectedVehicle: Vehicle | null;
+  quote: Quote | null;
+  selectedOptionId: string | null;
+  onError: (message: string) => void;
+  /** The quote on screen turned out to be expired, so its expiry state needs refreshing */
+  onQuoteExpired: () => void;
+  /** Purchase done; `refreshed` is the re-fetched vehicle, null when the re-fetch failed */
+  onPurchased: (vehicleId: string, refreshed: Vehicle | null) => void;
+  /** Called once after a reload with the unfinished purchase, to show its vehicle and quote again */
+  onRestore: (pending: PendingPurchase) => void;
+}
+
+export function usePurchase({ signedIn, selectedVehicle, quote, selectedOptionId, onError, onQuoteExpired, onPurchased, onRestore }: PurchaseOptions) {
+  const stepUp = useStepUp();
+  const [confirmation, setConfirmation] = useState<PurchaseConfirmation | null>(null);
+  const [pending, setPending] = useState<PendingPurchase | null>(() => loadPendingPurchase());
+  const [reconciling, setReconciling] = useState(false);
+  const pendingRef = useRef(pending);
+  const restoredRef = useRef(false);
+
+  function updatePending(next: PendingPurchase | null) {
+    pendingRef.current = next;
+    savePendingPurchase(next);
+    setPending(next);
+  }
+
+  // Keep the open step-up flow with the pending purchase so a reload can resume it
+  useEffect(() => {
+    const current = pendingRef.current;
+    if (current?.stage === "verifying" && current.flow !== (stepUp.flow || undefined)) {
+      updatePending({ ...current, flow: stepUp.flow || undefined });
+    }
+  }, [stepUp.flow]);
+
+  // After a reload: resume the step-up, or find out whether the purchase went through
+  useEffect(() => {
+    const saved = pendingRef.current;
+    if (!signedIn || restoredRef.current || !saved) return;
+    restoredRef.current = true;
+
+    if (saved.stage === "submitting") {
+      onRestore(saved);
+      reconcile(saved);
+    } else if (saved.flow) {
+      onRestore(saved);
+      stepUp.resume(saved.flow, (tokens) => completePurchase(tokens, saved));
+    }
+  }, [signedIn]);
+
+  function succeed(target: PendingPurchase, policy: InsurancePolicy, detail: VehicleDetail | null) {
+    updatePending(null);
+    onPurchased(target.vehicle.vehicleId, detail?.vehicle || null);
+    setConfirmation({
+      policy,
+      vehicle: detail?.vehicle || target.vehicle,
+      quote: target.quote,
+      optionName: target.binding.coverage,
+      purchasedAt: new Date().toISOString(),
+    });
+  }
+
+  /**
+   * Re-fetch the vehicle to learn the outcome of a purchase whose response was lost
+   */
+  async function reconcile(target: PendingPurchase | null = pendingRef.current) {
+    if (!target) return;
+    setReconciling(true);
+    try {
+      const detail = await getVehicleDetail(target.vehicle.vehicleId);
+      if (purchaseApplied(target.insuredUntilBefore, detail)) {
+        // The newest policy is the one just bought (for a renewal, the PendingRenewal one)
+        const policy = detail.policyHistory[0] || detail.policy;
+        if (!policy) {
+          // Applied but not readable yet: stay unresolved so the status can be checked again
+          onError("The purchase went through, but its policy is not available yet. Check its status again shortly.");
+          return;
+        }
+        succeed(target, policy, detail);
+      } else {
+        // Not applied: a new attempt is safe and reuses the same idempotency key
+        updatePending({ ...target, stage: "verifying", flow: undefined });
+        onError("The purchase did not go through. You can try again; you will not be charged twice.");
+      }
+    } catch (e) {
+      onError(describeError(e, "Could not confirm the purchase"));
+    } finally {
+      setReconciling(false);
+    }
+  }
+
+  function startPurchase() {
+    if (quote && isQuoteExpired(quote)) {
+      onQuoteExpired();
+      onError("This quote has expired. Request a new quote before buying.");
+      return;
+    }
+    if (!selectedVehicle || !quote) {
+      onError("Missing vehicle or quote information");
+      return;
+    }
+    if (pendingRef.current?.stage === "submitting") {
+      onError("A purchase is still being confirmed. Check its status before buying again.");
+      return;
+    }
+
+    const binding = purchaseAuthorizationDetail(selectedVehicle, quote, selectedOptionId);
+    const next = beginPurchase(pendingRef.current, selectedVehicle, quote, binding);
+    updatePending(next);
+    return stepUp.request((tokens) => completePurchase(tokens, next), [binding]);
+  }
+
+  async function completePurchase(tokens: TokenSet, target: PendingPurchase) {
+    const { vehicle, quote: purchasedQuote, binding } = target;
+    try {
+      if (isQuoteExpired(purchasedQuote)) {
+        throw new Error("This quote expired before the purchase completed. Request a new quote.");
+      }
+      // What was signed must be what is bought
+      assertPurchaseBinding(tokens, binding);
+    } catch (e) {
+      updatePending(null);
+      throw e;
+    }
+
+    const submitting: PendingPurchase = { ...target, stage: "submitting", flow: undefined };
+    updatePending(submitting);
+
+    let policy: InsurancePolicy;
+    try {
+      policy = await buyInsurance(vehicle.vehicleId, purchasedQuote.id, binding.optionId, target.idempotencyKey);
+    } catch (e) {
+      // Timeout, dropped connection or gateway failure: the backend may have
+      // charged already, so check instead of retrying
+      if (e instanceof NetworkError || (e instanceof ApiError && e.status >= 500)) {
+        await reconcile(submitting);
+        return;
+      }
+      updatePending(null);
+      throw new Error(describeError(e, "Insurance purchase failed"));
+    }
+
+    // Insurance status and available actions come from the backend, not from guesses here
+    let detail: VehicleDetail | null = null;
+    try {
+      detail = await getVehicleDetail(vehicle.vehicleId);
+    } catch (e) {
+      onError(describeError(e, "Policy purchased, but the vehicle could not be refreshed"));
+    }
+    succeed(target, policy, detail);
+  }
+
+  return {
+    stepUp,
+    confirmation,
+    dismissConfirmation: () => setConfirmation(null),
+    pending,
+    reconciling,
+    startPurchase,
+    reconcile: () => reconcile(),
+  };
+}
@@ -0,0 +1,85 @@
+/**
+ * useQuotes - per-vehicle quote cache, option choice and expiry tracking
+ *
+ * The quote exposed is always the one cached for the selected vehicle, so
+ * switching vehicles keeps a still-valid quote without re-fetching it.
+ */
+
+import { useEffect, useState } from "react";
+import { POLICY_CONFIG } from "../config";
+import { getQuote, Vehicle, Quote } from "../api";
+import { describeError } from "../errors";
+import { isRenewalDue } from "../renewal";
+import { QuoteCache, cachedQuote, validCachedQuote, isQuoteExpired, quoteExpiresAt, withQuote, withoutQuote, recommendedOption } from "../quoteStore";
+
+export function useQuotes(signedIn: boolean, selectedVehicle: Vehicle | null, onError: (message: string) => void) {
+  const [quotes, setQuotes] = useState<QuoteCache>({});
+  const [optionChoices, setOptionChoices] = useState<Record<string, string>>({}); // quote.id -> option id
+  const [quoteLoading, setQuoteLoading] = useState(false);
+  const [now, setNow] = useState(() => Date.now());
+
+  const quote = cachedQuote(quotes, selectedVehicle?.vehicleId);
+  const quoteExpired = !!quote && isQuoteExpired(quote, now);
+  const selectedOptionId = quote ? optionChoices[quote.id] || recommendedOption(quote).id : null;
+
+  function setSelectedOptionId(optionId: string) {
+    if (quote) setOptionChoices((c) => ({ ...c, [quote.id]: optionId }));
+  }
+
+  useEffect(() => {
+    if (!signedIn) { setQuotes({}); setOptionChoices({}); }
+  }, [signedIn]);
+
+  // Re-render when the displayed quote expires while the page is open, or
+  // straight away for a cached quote that lapsed while another vehicle was shown
+  useEffect(() => {
+    const at = quote && quoteExpiresAt(quote);
+    if (!at) return;
+    if (at <= Date.now()) {
+      setNow(Date.now());
+      return;
+    }
+    const t = setTimeout(() => setNow(Date.now()), Math.min(at - Date.now() + 50, 2 ** 31 - 1));
+    return () => clearTimeout(t);
+  }, [quote]);
+
+  async function requestQuote(vehicle: Vehicle, forceRefresh = false) {
+    // Reuse a still-valid cached quote instead of asking for a new one
+    if (!forceRefresh && validCachedQuote(quotes, vehicle.vehicleId)) return;
+
+    const renewal = vehicle.insuranceStatus.isInsured && isRenewalDue(vehicle);
+    if (vehicle.insuranceStatus.isInsured && !renewal) {
+      onError(`This vehicle already has active insurance. Renewal opens ${POLICY_CONFIG.RENEWAL_WINDOW_DAYS} days before expiry.`);
+      return;
+    }
+
+    setQuoteLoading(true);
+    onError("");
+    try {
+      const quoteData = await getQuote(vehicle.vehicleId, renewal ? vehicle.insuranceStatus.policyId : undefined);
+      setQuotes((c) => withQuote(c, quoteData));
+      setNow(Date.now());
+    } catch (e: any) {
+      onError(describeError(e, "Failed to get quote"));
+    } finally {
+      setQuoteLoading(false);
+    }
+  }
+
+  return {
+    quote,
+    quoteExpired,
+    quoteLoading,
+    selectedOptionId,
+    setSelectedOptionId,
+    requestQuote,
+    /** Re-check the displayed quote's expiry now */
+    refreshExpiry: () => setNow(Date.now()),
+    dropQuote: (vehicleId: string) => setQuotes((c) => withoutQuote(c, vehicleId)),
+    /** Put back a quote (and option choice) kept elsewhere, e.g. by a pending purchase */
+    restoreQuote: (restored: Quote, optionId: string) => {
+      setQuotes((c) => withQuote(c, restored));
+      setOptionChoices((c) => ({ ...c, [restored.id]: optionId }));
+    },
+  };
+}
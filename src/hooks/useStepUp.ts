@@ -0,0 +1,99 @@
+/**
+ * useStepUp - step-up authentication for sensitive actions
+ *
+ * `request(action)` starts an app-native flow with the transaction client;
+ * the caller renders `flow` (see StepUpPanel) and answers each step with
+ * `submit`. Once IS completes the flow the tokens are stored as the
+ * "transaction" token, the action runs with them, and they are discarded.
+ * `authorizationDetails` binds the token to the action (see
+ * ../auth/transactionBinding); the action should check them before use.
+ * The login session is never touched. FAIL_INCOMPLETE steps stay open for
+ * another attempt; FAIL_COMPLETED ends the flow.
+ */
+
+import { useRef, useState } from "react";
+import { OIDC_CONFIG as C } from "../config";
+import { getTokens, setTokens as storeTokens, clearTokens, TokenSet } from "../session";
+import { decodeJwt } from "../auth/oidc";
+import { startStepUp, submitStep, completeStepUp, StepUpFlow } from "../auth/stepUp";
+
+export function useStepUp(clientId = C.CLIENT_ID2) {
+  const [flow, setFlow] = useState<StepUpFlow | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const actionRef = useRef<((tokens: TokenSet) => Promise<void>) | null>(null);
+
+  async function finish(completed: StepUpFlow) {
+    const tokenJson = await completeStepUp(completed);
+    const tokens = storeTokens(tokenJson, completed.clientId, "transaction");
+    setFlow(null);
+
+    const action = actionRef.current;
+    actionRef.current = null;
+    try {
+      if (action) await action(tokens);
+    } finally {
+      clearTokens("transaction");
+    }
+  }
+
+  async function request(action: (tokens: TokenSet) => Promise<void>, authorizationDetails?: object[]) {
+    setError(null);
+    setBusy(true);
+    actionRef.current = action;
+    try {
+      const username = decodeJwt(getTokens()?.id_token)?.payload?.username;
+      const started = await startStepUp({ clientId, username: username ? String(username) : undefined, authorizationDetails });
+      if (started.status === "SUCCESS_COMPLETED") await finish(started);
+      else setFlow(started);
+    } catch (e: any) {
+      setError(String(e?.message || e));
+      setFlow(null);
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function submit(authenticatorId: string, params: Record<string, string> = {}) {
+    if (!flow) return;
+    setError(null);
+    setBusy(true);
+    try {
+      const next = await submitStep(flow, authenticatorId, params);
+      if (next.status === "SUCCESS_COMPLETED") await finish(next);
+      else setFlow(next);
+    } catch (e: any) {
+      // Network / passkey errors leave the step open so it can be retried
+      setError(e?.message || String(e));
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  /**
+   * Pick up a flow saved before a reload; `action` replaces the one lost with the page
+   */
+  function resume(saved: StepUpFlow, action: (tokens: TokenSet) => Promise<void>) {
+    actionRef.current = action;
+    setError(null);
+    setFlow(saved);
+  }
+
+  function cancel() {
+    actionRef.current = null;
+    setFlow(null);
+    setError(null);
+  }
+
+  return {
+    flow,
+    /** A flow is open or starting */
+    active: !!flow || busy,
+    busy,
+    error,
+    request,
+    submit,
+    resume,
+    cancel,
+  };
+}
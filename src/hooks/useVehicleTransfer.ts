@@ -0,0 +1,149 @@
+/**
+ * useVehicleTransfer - vehicle import from CSV / JSON and export with policies
+ *
+ * Import is two steps: loadImportFile reads and validates every row (against
+ * all of the account's vehicles, not just the page on screen) for review,
+ * then submitImport adds the valid rows one by one and records a result per
+ * row. Export covers every page of the list as currently filtered.
+ */
+
+import { useEffect, useState } from "react";
+import { fetchVehicles, addVehicle, getVehicleDetail, Vehicle } from "../api";
+import { describeError } from "../errors";
+import { settleWithLimit } from "../fleet";
+import { downloadFile } from "../download";
+import { toVehicleInput } from "../vehicleForm";
+import { VehicleQuery, DEFAULT_VEHICLE_QUERY } from "../vehicleQuery";
+import { ImportRow, ImportResult, VehicleExport, parseVehicleImport, vehiclesToCsv, vehiclesToJson, exportFilename } from "../vehicleTransfer";
+
+// Page size used to walk the whole list, and detail requests in flight at once
+const TRANSFER_PAGE_SIZE = 100;
+const DETAIL_CONCURRENCY = 3;
+
+/**
+ * Every vehicle matching the query's filters, across all pages
+ */
+async function fetchAllVehicles(query: VehicleQuery): Promise<Vehicle[]> {
+  const all: Vehicle[] = [];
+  let offset = 0;
+  for (;;) {
+    const page = await fetchVehicles({ ...query, offset, limit: TRANSFER_PAGE_SIZE });
+    // A backend that does not page returns the whole list every time
+    if (page.offset !== offset) return all;
+    all.push(...page.vehicles);
+    offset += TRANSFER_PAGE_SIZE;
+    if (offset >= page.total || page.vehicles.length + page.dropped.length === 0) return all;
+  }
+}
+
+interface TransferOptions {
+  signedIn: boolean;
+  /** Filters of the list on screen; an export follows them */
+  query: VehicleQuery;
+  onError: (message: string) => void;
+  /** Some vehicles were added; the list should be re-fetched */
+  onImported: () => void;
+}
+
+export function useVehicleTransfer({ signedIn, query, onError, onImported }: TransferOptions) {
+  const [importFilename, setImportFilename] = useState<string | null>(null);
+  const [importRows, setImportRows] = useState<ImportRow[] | null>(null);
+  const [importResults, setImportResults] = useState<ImportResult[] | null>(null);
+  const [fileError, setFileError] = useState<string | null>(null);
+  const [reading, setReading] = useState(false);
+  const [importing, setImporting] = useState(false);
+  const [exporting, setExporting] = useState<"csv" | "json" | null>(null);
+
+  useEffect(() => {
+    if (!signedIn) resetImport();
+  }, [signedIn]);
+
+  function resetImport() {
+    setImportFilename(null);
+    setImportRows(null);
+    setImportResults(null);
+    setFileError(null);
+  }
+
+  async function loadImportFile(file: File) {
+    resetImport();
+    setImportFilename(file.name);
+    setReading(true);
+    try {
+      const [text, existing] = await Promise.all([file.text(), fetchAllVehicles(DEFAULT_VEHICLE_QUERY)]);
+      setImportRows(parseVehicleImport(file.name, text, existing));
+    } catch (e: any) {
+      setFileError(describeError(e, "Could not read the file"));
+    } finally {
+      setReading(false);
+    }
+  }
+
+  async function submitImport() {
+    if (!importRows) return;
+    setImporting(true);
+    onError("");
+    const results: ImportResult[] = [];
+    try {
+      for (const { row, values, errors } of importRows) {
+        const registrationNumber = values.registrationNumber;
+        if (Object.keys(errors).length) {
+          results.push({ row, registrationNumber, status: "invalid", message: Object.values(errors).join("; ") });
+          continue;
+        }
+        try {
+          const added = await addVehicle(toVehicleInput(values));
+          results.push({ row, registrationNumber: added.registrationNumber, status: "added", vehicleId: added.vehicleId });
+        } catch (e) {
+          results.push({ row, registrationNumber, status: "failed", message: describeError(e, "Failed to add vehicle") });
+        }
+        setImportResults([...results]);
+      }
+    } finally {
+      setImportResults(results);
+      setImporting(false);
+      if (results.some((r) => r.status === "added")) onImported();
+    }
+  }
+
+  async function exportVehicles(format: "csv" | "json") {
+    setExporting(format);
+    onError("");
+    try {
+      const vehicles = await fetchAllVehicles(query);
+      const details = await settleWithLimit(vehicles, DETAIL_CONCURRENCY, (v) => getVehicleDetail(v.vehicleId));
+      const rows: VehicleExport[] = vehicles.map((vehicle, i) => {
+        const detail = details[i];
+        return detail.status === "fulfilled"
+          ? { vehicle: detail.value.vehicle, policies: detail.value.policyHistory }
+          : { vehicle, policies: [] };
+      });
+
+      downloadFile(
+        exportFilename(format),
+        format === "csv" ? vehiclesToCsv(rows) : vehiclesToJson(rows),
+        format === "csv" ? "text/csv" : "application/json"
+      );
+      const missing = details.filter((d) => d.status === "rejected").length;
+      if (missing) onError(`Exported, but policies could not be loaded for ${missing} vehicle(s).`);
+    } catch (e) {
+      onError(describeError(e, "Export failed"));
+    } finally {
+      setExporting(null);
+    }
+  }
+
+  return {
+    importFilename,
+    importRows,
+    importResults,
+    fileError,
+    reading,
+    importing,
+    exporting,
+    loadImportFile,
+    submitImport,
+    resetImport,
+    exportVehicles,
+  };
+}
@@ -0,0 +1,225 @@
+/**
+ * useVehicles - vehicle list, selection and the add / edit vehicle form
+ *
+ * Loads one page of the signed-in user's vehicles for the current search,
+ * filters and sort, tracks the selected vehicle, adds, updates and removes
+ * vehicles, and resets everything on sign-out.
+ */
+
+import { useEffect, useRef, useState } from "react";
+import { fetchVehicles, addVehicle, updateVehicle, deleteVehicle, getVehicleDetail, Vehicle, DroppedRecord } from "../api";
+import { describeError } from "../errors";
+import { VehicleQuery, DEFAULT_VEHICLE_QUERY } from "../vehicleQuery";
+import { VehicleFormValues, VehicleFormErrors, emptyVehicleForm, vehicleFormFrom, validateVehicleForm, toVehicleInput } from "../vehicleForm";
+
+const SEARCH_DEBOUNCE_MS = 300;
+
+export function useVehicles(signedIn: boolean, onError: (message: string) => void) {
+  const [vehicles, setVehicles] = useState<Vehicle[] | null>(null);
+  const [droppedVehicles, setDroppedVehicles] = useState<DroppedRecord[]>([]);
+  const [selectedVehicle, setSelectedVehicle] = useState<Vehicle | null>(null);
+  const [showVehicleForm, setShowVehicleForm] = useState(false);
+  // Vehicle being edited; null while adding a new one
+  const [editingVehicleId, setEditingVehicleId] = useState<string | null>(null);
+  const [vehicleForm, setVehicleForm] = useState<VehicleFormValues>(emptyVehicleForm);
+  const [formErrors, setFormErrors] = useState<VehicleFormErrors>({});
+  const [savingVehicle, setSavingVehicle] = useState(false);
+  const [deletingVehicleId, setDeletingVehicleId] = useState<string | null>(null);
+  const [query, setQuery] = useState<VehicleQuery>(DEFAULT_VEHICLE_QUERY);
+  // Query of the last fetch, to tell typing in the text filters from other changes
+  const fetchedQuery = useRef<VehicleQuery | null>(null);
+  const [totalVehicles, setTotalVehicles] = useState(0);
+  const [loadingVehicles, setLoadingVehicles] = useState(false);
+  // Bumped to re-fetch the current page after an add or remove
+  const [reloadKey, setReloadKey] = useState(0);
+
+  // Fetch vehicles once signed in and whenever the query changes (not on every silent refresh)
+  useEffect(() => {
+    if (!signedIn) {
+      setVehicles(null);
+      setDroppedVehicles([]);
+      setSelectedVehicle(null);
+      setQuery(DEFAULT_VEHICLE_QUERY);
+      setTotalVehicles(0);
+      fetchedQuery.current = null;
+      return;
+    }
+
+    // Wait for typing in the search / make boxes to pause before fetching
+    const previous = fetchedQuery.current;
+    const typing = !!previous && (previous.search !== query.search || previous.make !== query.make);
+
+    // Ignore responses for a query that has since changed
+    let stale = false;
+    const timer = setTimeout(async () => {
+      fetchedQuery.current = query;
+      setLoadingVehicles(true);
+      try {
+        const { vehicles: list, dropped, total } = await fetchVehicles(query);
+        if (stale) return;
+        // The last page emptied (e.g. its only vehicle was removed): step back a page
+        if (list.length === 0 && query.offset > 0 && total > 0) {
+          setQuery((q) => ({ ...q, offset: Math.max(0, Math.floor((total - 1) / q.limit) * q.limit) }));
+          return;
+        }
+        setVehicles(list);
+        setDroppedVehicles(dropped);
+        setTotalVehicles(total);
+      } catch (e: any) {
+        if (!stale) onError(describeError(e, "Vehicles fetch failed"));
+      } finally {
+        if (!stale) setLoadingVehicles(false);
+      }
+    }, typing ? SEARCH_DEBOUNCE_MS : 0);
+    return () => { stale = true; clearTimeout(timer); };
+  }, [signedIn, query, reloadKey]);
+
+  /**
+   * Change search / filters / sort; anything but a page change goes back to the first page
+   */
+  function updateQuery(patch: Partial<VehicleQuery>) {
+    setQuery((q) => ({ ...q, offset: 0, ...patch }));
+  }
+
+  function resetQuery() {
+    setQuery(DEFAULT_VEHICLE_QUERY);
+  }
+
+  /**
+   * Clicking the selected vehicle again deselects it
+   */
+  function toggleVehicle(vehicle: Vehicle) {
+    setSelectedVehicle(selectedVehicle?.vehicleId === vehicle.vehicleId ? null : vehicle);
+  }
+
+  /**
+   * Select a vehicle picked outside the list (e.g. in chat). It may not be on
+   * the current page, and the copy it came with may be out of date, so its
+   * current record is fetched first.
+   */
+  async function selectVehicleById(vehicleId: string) {
+    onError("");
+    try {
+      const { vehicle } = await getVehicleDetail(vehicleId);
+      setSelectedVehicle(vehicle);
+      replaceVehicle(vehicle);
+    } catch (e: any) {
+      onError(describeError(e, "Failed to open vehicle"));
+    }
+  }
+
+  /**
+   * Swap in an updated copy of a vehicle (list and selection)
+   */
+  function replaceVehicle(updated: Vehicle) {
+    setVehicles((list) => (list || []).map((v) => v.vehicleId === updated.vehicleId ? updated : v));
+    setSelectedVehicle((sel) => sel?.vehicleId === updated.vehicleId ? updated : sel);
+  }
+
+  function openAddVehicle() {
+    setEditingVehicleId(null);
+    setVehicleForm(emptyVehicleForm());
+    setFormErrors({});
+    setShowVehicleForm(true);
+  }
+
+  function startEditVehicle(vehicle: Vehicle) {
+    setEditingVehicleId(vehicle.vehicleId);
+    setVehicleForm(vehicleFormFrom(vehicle));
+    setFormErrors({});
+    setShowVehicleForm(true);
+  }
+
+  function closeVehicleForm() {
+    setShowVehicleForm(false);
+    setEditingVehicleId(null);
+    setFormErrors({});
+  }
+
+  /**
+   * Add a new vehicle, or save the one being edited.
+   * Resolves to the saved vehicle, or null when nothing was saved.
+   */
+  async function handleSaveVehicle(): Promise<Vehicle | null> {
+    // Only the loaded page is checked here; the server rejects duplicates elsewhere in the list
+    const errors = validateVehicleForm(vehicleForm, vehicles || [], editingVehicleId);
+    setFormErrors(errors);
+    if (Object.keys(errors).length) return null;
+
+    setSavingVehicle(true);
+    onError("");
+    try {
+      const input = toVehicleInput(vehicleForm);
+      if (editingVehicleId) {
+        const updated = await updateVehicle(editingVehicleId, input);
+        replaceVehicle(updated);
+        closeVehicleForm();
+        return updated;
+      }
+
+      const newVehicle = await addVehicle(input);
+      setReloadKey((k) => k + 1);
+      setVehicleForm(emptyVehicleForm());
+      closeVehicleForm();
+      return newVehicle;
+    } catch (e: any) {
+      onError(describeError(e, editingVehicleId ? "Failed to update vehicle" : "Failed to add vehicle"));
+      return null;
+    } finally {
+      setSavingVehicle(false);
+    }
+  }
+
+  /**
+   * Remove a vehicle after the user confirms. Resolves true when it was removed.
+   */
+  async function handleDeleteVehicle(vehicle: Vehicle): Promise<boolean> {
+    const warning = vehicle.insuranceStatus.isInsured ? " Its policy stays on record but the vehicle will no longer be listed." : "";
+    if (!window.confirm(`Remove ${vehicle.registrationNumber} from your vehicles?${warning}`)) return false;
+
+    setDeletingVehicleId(vehicle.vehicleId);
+    onError("");
+    try {
+      await deleteVehicle(vehicle.vehicleId);
+      setVehicles((list) => (list || []).filter((v) => v.vehicleId !== vehicle.vehicleId));
+      setReloadKey((k) => k + 1);
+      setSelectedVehicle((sel) => sel?.vehicleId === vehicle.vehicleId ? null : sel);
+      if (editingVehicleId === vehicle.vehicleId) closeVehicleForm();
+      return true;
+    } catch (e: any) {
+      onError(describeError(e, "Failed to remove vehicle"));
+      return false;
+    } finally {
+      setDeletingVehicleId(null);
+    }
+  }
+
+  return {
+    vehicles,
+    droppedVehicles,
+    totalVehicles,
+    loadingVehicles,
+    query,
+    updateQuery,
+    resetQuery,
+    selectedVehicle,
+    setSelectedVehicle,
+    toggleVehicle,
+    selectVehicleById,
+    replaceVehicle,
+    showVehicleForm,
+    editingVehicleId,
+    vehicleForm,
+    setVehicleForm,
+    formErrors,
+    savingVehicle,
+    deletingVehicleId,
+    openAddVehicle,
+    startEditVehicle,
+    closeVehicleForm,
+    handleSaveVehicle,
+    handleDeleteVehicle,
+    /** Re-fetch the current page, e.g. after vehicles were added elsewhere */
+    reloadVehicles: () => setReloadKey((k) => k + 1),
+  };
+}
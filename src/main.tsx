@@ -1,7 +1,10 @@
 import React from "react";
 import ReactDOM from "react-dom/client";
 import App from "./ui/InsuranceDemoApp";
+import { AuthProvider } from "./auth/AuthProvider";
 
 ReactDOM.createRoot(document.getElementById("root")!).render(
-  <App />
+  <AuthProvider>
+    <App />
+  </AuthProvider>
 );
@@ -0,0 +1,390 @@
+/**
+ * Mock Backend (demo mode)
+ *
+ * In-memory stand-in for the APIM vehicle, quote and policy APIs, used when
+ * DEMO_MODE is on. State lives for the lifetime of the page and follows the
+ * same transitions as the real backend:
+ *   uninsured vehicle -> quote issued -> policy bought -> vehicle insured
+ * Responses are raw JSON, so they go through the same validators as live data.
+ */
+
+import { NotFoundError, ValidationError } from "./errors";
+import { POLICY_CONFIG } from "./config";
+import type { Vehicle, VehicleInput, Quote, InsurancePolicy } from "./api";
+import type { VehicleSortField } from "./vehicleQuery";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Raw response shapes that differ from the app types; they are checked by ./validation like live data
+interface VehicleListing {
+  count: number;
+  list: Vehicle[];
+  pagination: { offset: number; limit: number; total: number };
+}
+type VehicleWithPolicies = Vehicle & { policies: InsurancePolicy[] };
+
+function isoDate(d: Date) {
+  return d.toISOString().slice(0, 10);
+}
+
+function daysFromNow(days: number) {
+  return isoDate(new Date(Date.now() + days * DAY_MS));
+}
+
+// Seed data for demo mode; dates are relative so one policy is always inside the renewal window
+const seedVehicles: Vehicle[] = [
+  {
+    vehicleId: "VEH-001",
+    make: "Toyota",
+    model: "Corolla",
+    registrationNumber: "WP-CA-4521",
+    type: "CAR",
+    manufactureYear: 2022,
+    estimatedValue: 4500000,
+    currency: "LKR",
+    insuranceStatus: {
+      isInsured: true,
+      policyId: "POL-2025-000874",
+      insuredUntil: daysFromNow(20)
+    },
+    actionsAvailable: {
+      canGetQuote: false,
+      canBuyInsurance: false,
+      canViewPolicy: true
+    }
+  },
+  {
+    vehicleId: "VEH-002",
+    make: "Honda",
+    model: "Civic",
+    registrationNumber: "WP-CB-7834",
+    type: "CAR",
+    manufactureYear: 2021,
+    estimatedValue: 3800000,
+    currency: "LKR",
+    insuranceStatus: {
+      isInsured: true,
+      policyId: "POL-2025-000875",
+      insuredUntil: daysFromNow(200)
+    },
+    actionsAvailable: {
+      canGetQuote: false,
+      canBuyInsurance: false,
+      canViewPolicy: true
+    }
+  },
+  {
+    vehicleId: "VEH-003",
+    make: "Toyota",
+    model: "Hiace",
+    registrationNumber: "WP-KA-9912",
+    type: "VAN",
+    manufactureYear: 2020,
+    estimatedValue: 5200000,
+    currency: "LKR",
+    insuranceStatus: {
+      isInsured: false
+    },
+    actionsAvailable: {
+      canGetQuote: true,
+      canBuyInsurance: false,
+      canViewPolicy: false
+    }
+  }
+];
+
+const seedPolicies: InsurancePolicy[] = [
+  {
+    id: "POL-2024-000412",
+    vehicleId: "VEH-001",
+    policyNumber: "POL-2024-000412",
+    startDate: daysFromNow(-710),
+    endDate: daysFromNow(-345),
+    premium: 105000,
+    status: "Expired",
+    coverage: "Third Party"
+  },
+  {
+    id: "POL-2025-000874",
+    vehicleId: "VEH-001",
+    policyNumber: "POL-2025-000874",
+    startDate: daysFromNow(-344),
+    endDate: daysFromNow(20),
+    premium: 112500,
+    status: "Active",
+    coverage: "Comprehensive"
+  },
+  {
+    id: "POL-2025-000875",
+    vehicleId: "VEH-002",
+    policyNumber: "POL-2025-000875",
+    startDate: daysFromNow(-164),
+    endDate: daysFromNow(200),
+    premium: 95000,
+    status: "Active",
+    coverage: "Comprehensive"
+  }
+];
+
+// Coverage tiers: annual base premium as a share of estimated value
+const TIERS = [
+  { tier: "THIRD_PARTY", name: "Third Party", rate: 0.01, minPremium: 8000, deductible: 0, addOns: [] as string[] },
+  { tier: "COMPREHENSIVE", name: "Comprehensive", rate: 0.025, minPremium: 15000, deductible: 25000, addOns: [] as string[] },
+  { tier: "COMPREHENSIVE_PLUS", name: "Comprehensive Plus", rate: 0.025, minPremium: 15000, deductible: 15000, addOns: ["ROADSIDE", "FLOOD"] }
+];
+const ADD_ONS: Record<string, { name: string; premium: (value: number) => number }> = {
+  ROADSIDE: { name: "Roadside Assistance", premium: () => 5000 },
+  FLOOD: { name: "Flood Cover", premium: (value) => Math.round(value * 0.003) }
+};
+const TAX_RATE = 0.08;
+const RECOMMENDED_TIER = "COMPREHENSIVE";
+const QUOTE_VALIDITY_DAYS = 7;
+const LATENCY_MS = 300;
+
+const VEHICLE_TYPES: Record<string, string> = {
+  Sedan: "CAR",
+  SUV: "CAR",
+  Truck: "TRUCK",
+  Motorcycle: "MOTORCYCLE",
+  Other: "OTHER"
+};
+
+const state: {
+  vehicles: Vehicle[];
+  policies: InsurancePolicy[];
+  quotes: Map<string, Quote>;
+  // Idempotency-Key -> { quoteId, optionId, policy } of purchases already made
+  purchases: Map<string, { quoteId: string; optionId?: string; policy: InsurancePolicy }>;
+  seq: number;
+} = {
+  vehicles: seedVehicles.map((v) => structuredClone(v)),
+  policies: seedPolicies.map((p) => structuredClone(p)),
+  quotes: new Map(),
+  purchases: new Map(),
+  seq: 1000
+};
+
+function delay<T>(value: T): Promise<T> {
+  return new Promise((resolve) => setTimeout(() => resolve(structuredClone(value)), LATENCY_MS));
+}
+
+function findVehicle(vehicleId: string) {
+  const vehicle = state.vehicles.find((v) => v.vehicleId === vehicleId);
+  if (!vehicle) throw new NotFoundError(`Vehicle ${vehicleId} not found`, 404);
+  return vehicle;
+}
+
+// Sort keys for listVehicles; uninsured vehicles have no expiry and sort last
+const SORT_KEYS: Record<VehicleSortField, (v: Vehicle) => number> = {
+  value: (v) => v.estimatedValue,
+  year: (v) => v.manufactureYear,
+  expiry: (v) => v.insuranceStatus.isInsured && v.insuranceStatus.insuredUntil ? Date.parse(v.insuranceStatus.insuredUntil) : Infinity
+};
+
+/**
+ * Filter, sort and page like the APIM listing: returns a { count, list, pagination } envelope
+ */
+export async function listVehicles(params: Record<string, string | number | boolean | undefined> = {}): Promise<VehicleListing> {
+  const search = String(params.query ?? "").replace(/[-\s]/g, "").toUpperCase();
+  const make = String(params.make ?? "").trim().toUpperCase();
+
+  const matches = state.vehicles.filter((v) =>
+    (!search || v.registrationNumber.replace(/[-\s]/g, "").toUpperCase().includes(search)) &&
+    (!params.type || v.type === params.type) &&
+    (params.insured === undefined || v.insuranceStatus.isInsured === params.insured) &&
+    (!make || v.make.toUpperCase().includes(make))
+  );
+
+  // sortBy arrives as a query parameter, so an unknown value is still possible here
+  const key: ((v: Vehicle) => number) | undefined = SORT_KEYS[params.sortBy as VehicleSortField];
+  if (key) {
+    const dir = params.sortOrder === "desc" ? -1 : 1;
+    matches.sort((a, b) => {
+      const ka = key(a), kb = key(b);
+      if (ka === kb) return 0;
+      if (ka === Infinity) return 1;
+      if (kb === Infinity) return -1;
+      return (ka - kb) * dir;
+    });
+  }
+
+  const offset = Math.max(0, Number(params.offset) || 0);
+  const limit = Math.max(1, Number(params.limit) || matches.length || 1);
+  const list = matches.slice(offset, offset + limit);
+  return delay({ count: list.length, list, pagination: { offset, limit, total: matches.length } });
+}
+
+function assertUniqueRegistration(registrationNumber: string, exceptId?: string) {
+  if (state.vehicles.some((v) => v.vehicleId !== exceptId && v.registrationNumber.toUpperCase() === registrationNumber.toUpperCase())) {
+    throw new ValidationError(`Vehicle ${registrationNumber} is already registered`, 409);
+  }
+}
+
+function vehicleFields(input: VehicleInput) {
+  return {
+    make: input.make,
+    model: input.model,
+    registrationNumber: input.registrationNumber.toUpperCase(),
+    type: VEHICLE_TYPES[input.vehicleType] || "OTHER",
+    manufactureYear: input.year,
+    estimatedValue: input.estimatedValue,
+    currency: input.currency
+  };
+}
+
+export async function addVehicle(input: VehicleInput): Promise<Vehicle> {
+  assertUniqueRegistration(input.registrationNumber);
+
+  const vehicle: Vehicle = {
+    vehicleId: `VEH-${++state.seq}`,
+    ...vehicleFields(input),
+    insuranceStatus: { isInsured: false },
+    actionsAvailable: { canGetQuote: true, canBuyInsurance: false, canViewPolicy: false }
+  };
+  state.vehicles.push(vehicle);
+  return delay(vehicle);
+}
+
+export async function updateVehicle(vehicleId: string, input: VehicleInput): Promise<Vehicle> {
+  const vehicle = findVehicle(vehicleId);
+  assertUniqueRegistration(input.registrationNumber, vehicleId);
+
+  Object.assign(vehicle, vehicleFields(input));
+  // Open quotes were priced on the old details
+  state.quotes.forEach((q, id) => { if (q.vehicleId === vehicleId) state.quotes.delete(id); });
+  vehicle.actionsAvailable.canBuyInsurance = false;
+  return delay(vehicle);
+}
+
+export async function deleteVehicle(vehicleId: string): Promise<void> {
+  findVehicle(vehicleId);
+  state.vehicles = state.vehicles.filter((v) => v.vehicleId !== vehicleId);
+  state.quotes.forEach((q, id) => { if (q.vehicleId === vehicleId) state.quotes.delete(id); });
+  return delay(undefined);
+}
+
+export async function getVehicleDetail(vehicleId: string): Promise<VehicleWithPolicies> {
+  const vehicle = findVehicle(vehicleId);
+  return delay({ ...vehicle, policies: state.policies.filter((p) => p.vehicleId === vehicleId) });
+}
+
+function quoteOptions(quoteId: string, estimatedValue: number) {
+  return TIERS.map((t) => {
+    const basePremium = Math.max(Math.round(estimatedValue * t.rate), t.minPremium);
+    const addOns = t.addOns.map((code) => ({ code, name: ADD_ONS[code].name, premium: ADD_ONS[code].premium(estimatedValue) }));
+    const addOnPremium = addOns.reduce((sum, a) => sum + a.premium, 0);
+    const tax = Math.round((basePremium + addOnPremium) * TAX_RATE);
+    return {
+      id: `${quoteId}-${t.tier}`,
+      tier: t.tier,
+      name: t.name,
+      deductible: t.deductible,
+      addOns,
+      breakdown: { basePremium, addOnPremium, tax },
+      premium: basePremium + addOnPremium + tax
+    };
+  });
+}
+
+function findPolicy(policyId: string) {
+  return state.policies.find((p) => p.id === policyId || p.policyNumber === policyId);
+}
+
+export async function getQuote(vehicleId: string, renewalOf?: string): Promise<Quote> {
+  const vehicle = findVehicle(vehicleId);
+  if (renewalOf) {
+    const current = findPolicy(renewalOf);
+    if (!current || current.vehicleId !== vehicleId) {
+      throw new NotFoundError(`Policy ${renewalOf} not found for vehicle ${vehicleId}`, 404);
+    }
+    const daysLeft = (new Date(current.endDate).getTime() - Date.now()) / DAY_MS;
+    if (daysLeft > POLICY_CONFIG.RENEWAL_WINDOW_DAYS) {
+      throw new ValidationError(`Policy ${renewalOf} is not yet due for renewal`, 400);
+    }
+    if (state.policies.some((p) => p.vehicleId === vehicleId && p.status === "PendingRenewal")) {
+      throw new ValidationError(`Policy ${renewalOf} has already been renewed`, 400);
+    }
+  } else if (vehicle.insuranceStatus.isInsured) {
+    throw new ValidationError(`Vehicle ${vehicleId} already has active insurance`, 400);
+  }
+
+  const id = `QUO-${++state.seq}`;
+  const options = quoteOptions(id, vehicle.estimatedValue);
+  const recommended = options.find((o) => o.tier === RECOMMENDED_TIER)!;
+  const quote: Quote = {
+    id,
+    vehicleId,
+    premium: recommended.premium,
+    coverage: recommended.name,
+    validUntil: daysFromNow(QUOTE_VALIDITY_DAYS),
+    renewalOf,
+    options
+  };
+  state.quotes.set(quote.id, quote);
+
+  // A fresh quote unlocks purchase
+  vehicle.actionsAvailable.canBuyInsurance = true;
+  return delay(quote);
+}
+
+export async function buyInsurance(vehicleId: string, quoteId: string, optionId?: string, idempotencyKey?: string): Promise<InsurancePolicy> {
+  const vehicle = findVehicle(vehicleId);
+
+  // A repeated purchase returns the original policy instead of buying again;
+  // the key may not be replayed for another quote or option
+  const previous = idempotencyKey && state.purchases.get(idempotencyKey);
+  if (previous) {
+    if (previous.quoteId !== quoteId) {
+      throw new ValidationError(`Idempotency key was already used for quote ${previous.quoteId}`, 422);
+    }
+    if (previous.optionId !== optionId) {
+      throw new ValidationError(`Idempotency key was already used for option ${previous.optionId || "(recommended)"} of quote ${quoteId}`, 422);
+    }
+    return delay(previous.policy);
+  }
+
+  const quote = state.quotes.get(quoteId);
+  if (!quote || quote.vehicleId !== vehicleId) {
+    throw new NotFoundError(`Quote ${quoteId} not found for vehicle ${vehicleId}`, 404);
+  }
+  const option = optionId
+    ? quote.options.find((o) => o.id === optionId)
+    : quote.options.find((o) => o.tier === RECOMMENDED_TIER);
+  if (!option) {
+    throw new ValidationError(`Option ${optionId} is not part of quote ${quoteId}`, 400);
+  }
+  if (new Date(quote.validUntil).getTime() < Date.now() - DAY_MS) {
+    throw new ValidationError(`Quote ${quoteId} has expired`, 400);
+  }
+  if (vehicle.insuranceStatus.isInsured && !quote.renewalOf) {
+    throw new ValidationError(`Vehicle ${vehicleId} already has active insurance`, 400);
+  }
+
+  // A renewal starts the day after the current policy ends and stays
+  // PendingRenewal until then; a new policy starts today
+  const current = quote.renewalOf ? findPolicy(quote.renewalOf) : null;
+  const start = current ? new Date(new Date(current.endDate).getTime() + DAY_MS) : new Date();
+  const end = new Date(start);
+  end.setFullYear(end.getFullYear() + 1);
+  end.setDate(end.getDate() - 1);
+  const policyNumber = `POL-${start.getFullYear()}-${String(++state.seq).padStart(6, "0")}`;
+  const policy: InsurancePolicy = {
+    id: policyNumber,
+    vehicleId,
+    policyNumber,
+    startDate: isoDate(start),
+    endDate: isoDate(end),
+    premium: option.premium,
+    status: current ? "PendingRenewal" : "Active",
+    coverage: option.name
+  };
+  state.policies.push(policy);
+  state.quotes.delete(quoteId);
+  if (idempotencyKey) state.purchases.set(idempotencyKey, { quoteId, optionId, policy });
+
+  vehicle.insuranceStatus = current
+    ? { ...vehicle.insuranceStatus, insuredUntil: policy.endDate }
+    : { isInsured: true, policyId: policyNumber, insuredUntil: policy.endDate };
+  vehicle.actionsAvailable = { canGetQuote: false, canBuyInsurance: false, canViewPolicy: true };
+  return delay(policy);
+}
@@ -0,0 +1,104 @@
+/**
+ * Money
+ *
+ * Every amount shown in the app goes through formatMoney with its currency
+ * and the user's locale (the userinfo `locale` claim, see localeFromUserInfo).
+ * Amounts are only added up in one currency: sumMoney refuses mixed
+ * currencies unless MONEY_CONFIG.CONVERSION_TABLE has a rate for each.
+ */
+
+import { MONEY_CONFIG } from "./config";
+import { MixedCurrencyError } from "./errors";
+
+export interface Money {
+  amount: number;
+  /** ISO 4217 code, e.g. "LKR" */
+  currency: string;
+}
+
+export type ConversionTable = NonNullable<typeof MONEY_CONFIG.CONVERSION_TABLE>;
+
+/**
+ * BCP 47 locale from the userinfo `locale` claim ("en_US" and "en-US" are
+ * both seen), or the default when the claim is missing or not a valid locale
+ */
+export function localeFromUserInfo(userInfo: { locale?: unknown } | null | undefined): string {
+  const claim = typeof userInfo?.locale === "string" ? userInfo.locale.trim().replace(/_/g, "-") : "";
+  if (!claim) return MONEY_CONFIG.DEFAULT_LOCALE;
+  try {
+    return Intl.getCanonicalLocales(claim)[0] || MONEY_CONFIG.DEFAULT_LOCALE;
+  } catch {
+    return MONEY_CONFIG.DEFAULT_LOCALE;
+  }
+}
+
+/**
+ * Amount with its currency in the user's locale, e.g. "LKR 4,500,000" or
+ * "US$1,250.50". Whole amounts are shown without minor units.
+ */
+export function formatMoney(amount: number, currency: string, locale = MONEY_CONFIG.DEFAULT_LOCALE): string {
+  const whole = Number.isInteger(amount);
+  try {
+    return new Intl.NumberFormat(locale, {
+      style: "currency",
+      currency,
+      minimumFractionDigits: whole ? 0 : undefined,
+      maximumFractionDigits: whole ? 0 : undefined,
+    }).format(amount);
+  } catch {
+    // Unknown currency code: still show the number and the code
+    return `${formatNumber(amount, locale)} ${currency}`;
+  }
+}
+
+/**
+ * Plain number in the user's locale, for columns whose currency is labelled elsewhere
+ */
+export function formatNumber(amount: number, locale = MONEY_CONFIG.DEFAULT_LOCALE): string {
+  try {
+    return amount.toLocaleString(locale);
+  } catch {
+    return amount.toLocaleString(MONEY_CONFIG.DEFAULT_LOCALE);
+  }
+}
+
+/**
+ * Totals per currency, in first-seen order
+ */
+export function totalsByCurrency(amounts: Money[]): Money[] {
+  const totals = new Map<string, number>();
+  amounts.forEach((m) => totals.set(m.currency, (totals.get(m.currency) || 0) + m.amount));
+  return Array.from(totals, ([currency, amount]) => ({ currency, amount }));
+}
+
+/**
+ * Convert between currencies through the table's base currency
+ * @throws MixedCurrencyError when the table has no rate for either currency
+ */
+export function convertMoney(money: Money, currency: string, table: ConversionTable): Money {
+  if (money.currency === currency) return money;
+  const rate = (c: string) => (c === table.base ? 1 : table.rates[c]);
+  const from = rate(money.currency);
+  const to = rate(currency);
+  if (!from || !to) {
+    throw new MixedCurrencyError(`No exchange rate between ${money.currency} and ${currency}`, [money.currency, currency]);
+  }
+  return { amount: (money.amount * from) / to, currency };
+}
+
+/**
+ * Add up amounts. Different currencies are converted into `currency` (by
+ * default the first amount's) only when a conversion table is given.
+ * @throws MixedCurrencyError for mixed currencies without a table, or a rate missing from it
+ */
+export function sumMoney(amounts: Money[], currency?: string, table: ConversionTable | null = MONEY_CONFIG.CONVERSION_TABLE): Money {
+  const target = currency || amounts[0]?.currency;
+  if (!target) throw new MixedCurrencyError("No currency to total in", []);
+
+  const currencies = Array.from(new Set(amounts.map((m) => m.currency)));
+  if (!table && currencies.some((c) => c !== target)) {
+    throw new MixedCurrencyError(`Cannot add up ${currencies.join(" and ")} without exchange rates`, currencies);
+  }
+  const amount = amounts.reduce((sum, m) => sum + (table ? convertMoney(m, target, table) : m).amount, 0);
+  return { amount, currency: target };
+}
@@ -0,0 +1,50 @@
+/**
+ * Policy Summary
+ *
+ * The confirmation shown after a purchase and the plain-text summary the
+ * customer can download from it.
+ */
+
+import type { InsurancePolicy, Quote, Vehicle } from "./api";
+import { downloadFile } from "./download";
+import { formatMoney } from "./money";
+
+export interface PurchaseConfirmation {
+  policy: InsurancePolicy;
+  /** Vehicle as re-fetched from the backend after the purchase */
+  vehicle: Vehicle;
+  quote: Quote;
+  /** Coverage option that was bought */
+  optionName: string;
+  purchasedAt: string;
+}
+
+export function policySummaryText({ policy, vehicle, quote, optionName, purchasedAt }: PurchaseConfirmation, locale?: string): string {
+  const rows: [string, string][] = [
+    ["Policy Number", policy.policyNumber],
+    ["Status", policy.status],
+    ["Vehicle", `${vehicle.make} ${vehicle.model} (${vehicle.registrationNumber})`],
+    ["Coverage", policy.coverage || optionName],
+    ["Start Date", policy.startDate],
+    ["End Date", policy.endDate],
+    ["Premium", formatMoney(policy.premium, vehicle.currency, locale)],
+    ["Quote", quote.id],
+  ];
+  if (quote.renewalOf) rows.push(["Renews", quote.renewalOf]);
+  rows.push(["Purchased", new Date(purchasedAt).toLocaleString(locale)]);
+
+  const width = Math.max(...rows.map(([label]) => label.length));
+  return [
+    "Motor Insurance Policy Summary",
+    "==============================",
+    ...rows.map(([label, value]) => `${label.padEnd(width)}  ${value}`),
+    "",
+  ].join("\n");
+}
+
+/**
+ * Save the summary as <policyNumber>.txt
+ */
+export function downloadPolicySummary(confirmation: PurchaseConfirmation, locale?: string) {
+  downloadFile(`${confirmation.policy.policyNumber}.txt`, policySummaryText(confirmation, locale), "text/plain");
+}
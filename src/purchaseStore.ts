@@ -0,0 +1,71 @@
+/**
+ * Purchase Store
+ *
+ * A purchase in progress is persisted in sessionStorage so a reload or a
+ * timed-out request does not lose it, and so it is never blindly repeated:
+ * - "verifying": step-up is open; the flow can be resumed after a reload
+ * - "submitting": buy-insurance was sent and its outcome is unknown until
+ *   the vehicle's policy status has been re-fetched (see reconcile)
+ * Each purchase carries an idempotency key, reused for every attempt on the
+ * same quote and option so the backend can drop duplicates.
+ */
+
+import type { Quote, Vehicle, VehicleDetail } from "./api";
+import type { StepUpFlow } from "./auth/stepUp";
+import type { PurchaseAuthorizationDetail } from "./auth/transactionBinding";
+
+export type PurchaseStage = "verifying" | "submitting";
+
+export interface PendingPurchase {
+  idempotencyKey: string;
+  stage: PurchaseStage;
+  vehicle: Vehicle;
+  quote: Quote;
+  binding: PurchaseAuthorizationDetail;
+  /** Cover end date before the purchase; a change means it went through */
+  insuredUntilBefore?: string;
+  /** Open step-up flow while verifying */
+  flow?: StepUpFlow;
+  startedAt: number;
+}
+
+const STORAGE_KEY = "pendingPurchase";
+
+export function loadPendingPurchase(): PendingPurchase | null {
+  try { const v = sessionStorage.getItem(STORAGE_KEY); return v ? JSON.parse(v) : null; } catch { return null; }
+}
+
+export function savePendingPurchase(pending: PendingPurchase | null) {
+  try {
+    if (pending) sessionStorage.setItem(STORAGE_KEY, JSON.stringify(pending));
+    else sessionStorage.removeItem(STORAGE_KEY);
+  } catch {}
+}
+
+/**
+ * Start (or continue) a purchase of the quote. An earlier pending purchase of
+ * the same quote and option keeps its idempotency key; choosing another
+ * option is a different purchase and gets a new one.
+ */
+export function beginPurchase(previous: PendingPurchase | null, vehicle: Vehicle, quote: Quote, binding: PurchaseAuthorizationDetail): PendingPurchase {
+  const retry = previous?.quote.id === quote.id && previous.binding.optionId === binding.optionId ? previous : null;
+  return {
+    idempotencyKey: retry ? retry.idempotencyKey : crypto.randomUUID(),
+    stage: "verifying",
+    vehicle,
+    quote,
+    binding,
+    insuredUntilBefore: retry ? retry.insuredUntilBefore : vehicle.insuranceStatus.insuredUntil,
+    startedAt: Date.now(),
+  };
+}
+
+/**
+ * Whether the re-fetched vehicle shows a purchase took effect: a new policy
+ * insures it, or a renewal extended its cover
+ * @param insuredUntilBefore - Cover end date recorded before the purchase
+ */
+export function purchaseApplied(insuredUntilBefore: string | undefined, detail: VehicleDetail): boolean {
+  const status = detail.vehicle.insuranceStatus;
+  return status.isInsured && !!status.insuredUntil && status.insuredUntil !== insuredUntilBefore;
+}
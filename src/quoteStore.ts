@@ -0,0 +1,59 @@
+/**
+ * Quote Store
+ *
+ * Quotes are cached per vehicleId so switching between vehicles keeps a
+ * still-valid quote instead of re-fetching it. The cache is a plain record so
+ * it can live in React state; helpers return new objects rather than mutating.
+ */
+
+import type { Quote, QuoteOption } from "./api";
+
+export type QuoteCache = Record<string, Quote>;
+
+/**
+ * Moment the quote stops being valid (epoch millis).
+ * A date-only validUntil ("2025-12-31") is valid through the end of that day.
+ * Returns null when validUntil cannot be parsed; the backend has the final say then.
+ */
+export function quoteExpiresAt(quote: Quote): number | null {
+  const v = quote.validUntil;
+  if (/^\d{4}-\d{2}-\d{2}$/.test(v)) {
+    const [y, m, d] = v.split("-").map(Number);
+    return new Date(y, m - 1, d + 1).getTime();
+  }
+  const at = Date.parse(v);
+  return isNaN(at) ? null : at;
+}
+
+export function isQuoteExpired(quote: Quote, now = Date.now()): boolean {
+  const at = quoteExpiresAt(quote);
+  return at !== null && at <= now;
+}
+
+export function cachedQuote(cache: QuoteCache, vehicleId: string | undefined): Quote | null {
+  return (vehicleId && cache[vehicleId]) || null;
+}
+
+/**
+ * Cached quote for the vehicle, only if it is still valid
+ */
+export function validCachedQuote(cache: QuoteCache, vehicleId: string | undefined, now = Date.now()): Quote | null {
+  const quote = cachedQuote(cache, vehicleId);
+  return quote && !isQuoteExpired(quote, now) ? quote : null;
+}
+
+export function withQuote(cache: QuoteCache, quote: Quote): QuoteCache {
+  return { ...cache, [quote.vehicleId]: quote };
+}
+
+export function withoutQuote(cache: QuoteCache, vehicleId: string): QuoteCache {
+  const { [vehicleId]: _removed, ...rest } = cache;
+  return rest;
+}
+
+/**
+ * Option preselected in the comparison table: the one named by the quote's coverage
+ */
+export function recommendedOption(quote: Quote): QuoteOption {
+  return quote.options.find((o) => o.name === quote.coverage) || quote.options[0];
+}
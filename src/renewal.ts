@@ -0,0 +1,50 @@
+/**
+ * Renewal Helpers
+ *
+ * Days-to-expiry and renewal-window checks based on
+ * Vehicle.insuranceStatus.insuredUntil and POLICY_CONFIG.RENEWAL_WINDOW_DAYS.
+ */
+
+import { POLICY_CONFIG } from "./config";
+import type { Vehicle } from "./api";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function startOfDay(d: Date) {
+  return new Date(d.getFullYear(), d.getMonth(), d.getDate()).getTime();
+}
+
+/**
+ * Whole days from today until a YYYY-MM-DD date (0 = today, negative once past)
+ */
+export function daysUntil(date: string, now = new Date()): number | null {
+  const [y, m, d] = date.slice(0, 10).split("-").map(Number);
+  if (!y || !m || !d) return null;
+  return Math.round((new Date(y, m - 1, d).getTime() - startOfDay(now)) / DAY_MS);
+}
+
+/**
+ * Days until the vehicle's cover ends, or null when uninsured / no end date
+ */
+export function daysToExpiry(vehicle: Vehicle, now = new Date()): number | null {
+  const { isInsured, insuredUntil } = vehicle.insuranceStatus;
+  if (!isInsured || !insuredUntil) return null;
+  return daysUntil(insuredUntil, now);
+}
+
+/**
+ * Insured vehicle whose cover ends within the renewal window
+ */
+export function isRenewalDue(vehicle: Vehicle, now = new Date()): boolean {
+  const days = daysToExpiry(vehicle, now);
+  return days !== null && days <= POLICY_CONFIG.RENEWAL_WINDOW_DAYS;
+}
+
+/**
+ * Short label for the vehicle card countdown
+ */
+export function expiryLabel(days: number): string {
+  if (days < 0) return `Expired ${-days} day${days === -1 ? "" : "s"} ago`;
+  if (days === 0) return "Expires today";
+  return `Expires in ${days} day${days === 1 ? "" : "s"}`;
+}
@@ -0,0 +1,245 @@
+/**
+ * Token / Session Manager
+ *
+ * Owns the OAuth2 token sets of the signed-in user, keyed by purpose:
+ * - "login": the CLIENT_ID session used for every API call by default.
+ *   Persisted in sessionStorage (under "tokens") with an absolute expiry and
+ *   refreshed ahead of expiry via the discovered token endpoint using the
+ *   refresh_token; a refreshed ID token is validated like the original one
+ * - "transaction": the CLIENT_ID2 token from a step-up, kept in memory only,
+ *   used for the one protected call it was issued for and then cleared
+ * - Hands out bearer tokens to API callers and retries a 401 once after refreshing
+ * - Notifies subscribers (the React app) whenever a token set changes
+ */
+
+import { OIDC_CONFIG as C } from "./config";
+import { AuthError, IdTokenError } from "./errors";
+import { discover, validateIdToken } from "./auth/oidc";
+
+export interface TokenSet {
+  access_token: string;
+  token_type?: string;
+  refresh_token?: string;
+  id_token?: string;
+  scope?: string;
+  expires_in?: number;
+  /** Absolute expiry of the access token (epoch millis), computed from expires_in */
+  expires_at?: number;
+  /** RFC 9396 grants of a step-up token (see ./auth/transactionBinding) */
+  authorization_details?: unknown[];
+  /** Client the tokens were issued to; refresh must use the same client */
+  _client_id?: string;
+}
+
+export type TokenPurpose = "login" | "transaction";
+
+export type TokenStore = Partial<Record<TokenPurpose, TokenSet>>;
+
+type Listener = (store: TokenStore) => void;
+
+const STORAGE_KEY = "tokens";
+
+// Refresh this long before the access token actually expires
+const REFRESH_LEEWAY_MS = 60 * 1000;
+
+const store: TokenStore = {};
+let current: TokenSet | null = loadTokens();
+let refreshTimer: ReturnType<typeof setTimeout> | null = null;
+let refreshInFlight: Promise<TokenSet | null> | null = null;
+const listeners = new Set<Listener>();
+
+scheduleRefresh();
+
+function loadTokens(): TokenSet | null {
+  try { const v = sessionStorage.getItem(STORAGE_KEY); return v ? JSON.parse(v) : null; } catch { return null; }
+}
+
+function persist(tokens: TokenSet | null) {
+  try {
+    if (tokens) sessionStorage.setItem(STORAGE_KEY, JSON.stringify(tokens));
+    else sessionStorage.removeItem(STORAGE_KEY);
+  } catch {}
+}
+
+function notify() {
+  const snapshot: TokenStore = { ...store, login: current || undefined };
+  listeners.forEach((l) => l(snapshot));
+}
+
+function scheduleRefresh() {
+  if (refreshTimer) { clearTimeout(refreshTimer); refreshTimer = null; }
+  if (!current?.refresh_token || !current.expires_at) return;
+
+  const delay = Math.max(current.expires_at - REFRESH_LEEWAY_MS - Date.now(), 0);
+  refreshTimer = setTimeout(() => { refreshTokens().catch(() => {}); }, delay);
+}
+
+function isExpiring(tokens: TokenSet) {
+  return !!tokens.expires_at && tokens.expires_at - REFRESH_LEEWAY_MS <= Date.now();
+}
+
+/**
+ * Current token set for a purpose, or null when there is none
+ */
+export function getTokens(purpose: TokenPurpose = "login"): TokenSet | null {
+  return purpose === "login" ? current : store[purpose] || null;
+}
+
+/**
+ * All current token sets, for display
+ */
+export function getTokenStore(): TokenStore {
+  return { ...store, login: current || undefined };
+}
+
+/**
+ * Store a token response from the token endpoint.
+ * Login tokens keep the previous refresh_token when the server does not rotate it;
+ * transaction tokens replace any earlier one and are never refreshed or persisted.
+ */
+export function setTokens(json: any, clientId?: string, purpose: TokenPurpose = "login"): TokenSet {
+  if (purpose !== "login") {
+    const tokens: TokenSet = { ...json, _client_id: clientId || json?._client_id || C.CLIENT_ID2 };
+    delete tokens.refresh_token;
+    if (typeof tokens.expires_in === "number") tokens.expires_at = Date.now() + tokens.expires_in * 1000;
+    store[purpose] = tokens;
+    notify();
+    return tokens;
+  }
+
+  const tokens: TokenSet = {
+    ...json,
+    _client_id: clientId || json?._client_id || current?._client_id || C.CLIENT_ID,
+  };
+  if (!tokens.refresh_token && current?.refresh_token && current._client_id === tokens._client_id) {
+    tokens.refresh_token = current.refresh_token;
+  }
+  if (typeof tokens.expires_in === "number") {
+    tokens.expires_at = Date.now() + tokens.expires_in * 1000;
+  }
+
+  current = tokens;
+  persist(current);
+  scheduleRefresh();
+  notify();
+  return tokens;
+}
+
+/**
+ * Drop one token set, or all of them when no purpose is given
+ * (logout, or login refresh no longer possible)
+ */
+export function clearTokens(purpose?: TokenPurpose) {
+  if (purpose && purpose !== "login") {
+    delete store[purpose];
+    notify();
+    return;
+  }
+  if (!purpose) delete store.transaction;
+  current = null;
+  persist(null);
+  scheduleRefresh();
+  notify();
+}
+
+/**
+ * Subscribe to token changes; returns an unsubscribe function
+ */
+export function subscribe(listener: Listener): () => void {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+}
+
+/**
+ * Exchange the refresh_token for a new token set.
+ * Concurrent callers share the same request. If the server rejects the
+ * refresh_token, or returns an ID token that fails validation, the session is
+ * cleared so the UI falls back to sign-in.
+ */
+export function refreshTokens(): Promise<TokenSet | null> {
+  if (refreshInFlight) return refreshInFlight;
+  if (!current?.refresh_token) return Promise.resolve(null);
+
+  const { refresh_token, _client_id } = current;
+  refreshInFlight = (async () => {
+    try {
+      const body = new URLSearchParams();
+      body.set("grant_type", "refresh_token");
+      body.set("refresh_token", refresh_token);
+      body.set("client_id", _client_id || C.CLIENT_ID);
+
+      const { token_endpoint } = await discover();
+      const res = await fetch(token_endpoint, {
+        method: "POST",
+        headers: { "Content-Type": "application/x-www-form-urlencoded" },
+        body,
+      });
+
+      if (res.status === 400 || res.status === 401) {
+        // invalid_grant: refresh token expired or revoked
+        clearTokens();
+        return null;
+      }
+      if (!res.ok) throw new Error(`Token refresh failed (${res.status})`);
+
+      const json = await res.json().catch(() => null);
+      if (!json?.access_token) throw new Error("Token refresh response not JSON.");
+
+      if (json.id_token) {
+        try {
+          await validateIdToken(json.id_token, { clientId: _client_id || C.CLIENT_ID });
+        } catch (e) {
+          if (e instanceof IdTokenError) clearTokens();
+          throw e;
+        }
+      }
+      return setTokens(json, _client_id);
+    } finally {
+      refreshInFlight = null;
+    }
+  })();
+  return refreshInFlight;
+}
+
+/**
+ * Bearer token for an API call, refreshed first if it is about to expire.
+ * Transaction tokens are returned only while unexpired.
+ */
+export async function getAccessToken(purpose: TokenPurpose = "login"): Promise<string | null> {
+  if (purpose !== "login") {
+    const tokens = store[purpose];
+    return tokens && !(tokens.expires_at && tokens.expires_at <= Date.now()) ? tokens.access_token : null;
+  }
+  if (current && isExpiring(current) && current.refresh_token) {
+    await refreshTokens().catch(() => null);
+  }
+  return current?.access_token || null;
+}
+
+/**
+ * fetch() with the bearer token for the given purpose.
+ * On a 401 the login token is refreshed and the request retried once.
+ * A transaction token covers only the actions approved in its step-up (one
+ * purchase, or every purchase of a fleet batch) and is never refreshed, so a
+ * 401 with it is not retried.
+ */
+export async function authorizedFetch(input: string, init: RequestInit = {}, purpose: TokenPurpose = "login"): Promise<Response> {
+  const send = (token: string | null) => {
+    const headers = new Headers(init.headers);
+    if (token) headers.set("Authorization", `Bearer ${token}`);
+    return fetch(input, { ...init, headers });
+  };
+
+  const token = await getAccessToken(purpose);
+  if (purpose !== "login") {
+    if (!token) throw new AuthError(`No ${purpose} token; verify again to continue`, 401);
+    return send(token);
+  }
+
+  const res = await send(token);
+  if (res.status !== 401 || !current?.refresh_token) return res;
+
+  const refreshed = await refreshTokens().catch(() => null);
+  if (!refreshed) return res;
+  return send(refreshed.access_token);
+}
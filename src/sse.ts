@@ -0,0 +1,67 @@
+/**
+ * Server-Sent Events
+ *
+ * Reads a text/event-stream response body from fetch (EventSource cannot
+ * POST or send a bearer token) and hands each complete event to a callback.
+ * An exception thrown by the callback stops reading and cancels the stream.
+ */
+
+export interface ServerSentEvent {
+  /** `event:` field; "message" when the server sent none */
+  event: string;
+  /** `data:` lines joined with "\n" */
+  data: string;
+  id?: string;
+}
+
+const EVENT_BOUNDARY = /\r\n\r\n|\n\n|\r\r/;
+
+function parseEvent(block: string): ServerSentEvent | null {
+  let event = "message";
+  let id: string | undefined;
+  const data: string[] = [];
+  for (const line of block.split(/\r\n|\r|\n/)) {
+    if (!line || line.startsWith(":")) continue;
+    const colon = line.indexOf(":");
+    const field = colon < 0 ? line : line.slice(0, colon);
+    const value = colon < 0 ? "" : line.slice(colon + 1).replace(/^ /, "");
+    if (field === "event") event = value;
+    else if (field === "data") data.push(value);
+    else if (field === "id") id = value;
+  }
+  return data.length ? { event, data: data.join("\n"), id } : null;
+}
+
+/**
+ * Read events until the stream ends. Rejects when the request is aborted.
+ */
+export async function readEventStream(body: ReadableStream<Uint8Array>, onEvent: (event: ServerSentEvent) => void): Promise<void> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  const dispatch = () => {
+    for (let match = EVENT_BOUNDARY.exec(buffer); match; match = EVENT_BOUNDARY.exec(buffer)) {
+      const event = parseEvent(buffer.slice(0, match.index));
+      buffer = buffer.slice(match.index + match[0].length);
+      if (event) onEvent(event);
+    }
+  };
+
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+      dispatch();
+    }
+    // A last event without the closing blank line still counts
+    buffer += decoder.decode() + "\n\n";
+    dispatch();
+  } catch (e) {
+    reader.cancel().catch(() => {});
+    throw e;
+  } finally {
+    reader.releaseLock();
+  }
+}
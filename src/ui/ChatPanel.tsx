@@ -1,29 +1,43 @@
 import React, { useState, useRef, useEffect } from "react";
 import { motion } from "framer-motion";
-import { Send, Loader2, MessageSquare, ChevronDown, ChevronUp } from "lucide-react";
+import { Send, Loader2, MessageSquare, ChevronDown, ChevronUp, Square, Plus, History } from "lucide-react";
+import { authorizedFetch } from "../session";
+import { readEventStream } from "../sse";
+import { ChatMessage, recentTurns } from "../chatStore";
+import { useChatHistory } from "../hooks/useChatHistory";
+import type { Vehicle } from "../api";
+import { parseVehicleList } from "../validation";
+import { ChatMarkdown } from "./components/ChatMarkdown";
+import { ChatVehicleCards } from "./components/ChatVehicleCards";
+import { ChatHistoryList } from "./components/ChatHistoryList";
 
 /**
- * ChatMessage interface represents a single message in the chat conversation
- * @property id - Unique identifier for the message
- * @property role - Either "user" for user messages or "assistant" for bot responses
- * @property content - The text content of the message (supports markdown)
- * @property timestamp - When the message was created
- * @property hadTransactions - Optional flag indicating if response includes transaction data
+ * ChatPanelProps interface for the ChatPanel component
+ * @property signedIn - Whether a user session exists; the bearer token itself comes from the session manager
+ * @property locale - User's locale (userinfo `locale` claim); the chat server formats amounts with it
+ * @property onSelectVehicle - Called when a vehicle card in a reply is clicked
+ * @property userId - `sub` claim of the signed-in user; conversations are stored under it
  */
-interface ChatMessage {
-  id: string;
-  role: "user" | "assistant";
-  content: string;
-  timestamp: Date;
-  hadTransactions?: boolean;
+interface ChatPanelProps {
+  signedIn: boolean;
+  userId: string | null;
+  locale: string;
+  onSelectVehicle: (vehicle: Vehicle) => void;
 }
 
 /**
- * ChatPanelProps interface for the ChatPanel component
- * @property accessToken - OAuth access token used to authenticate requests to the chat API
+ * Vehicles from the reply's policyInfoData that the reply mentions (by
+ * registration or make and model), so a filtered answer only shows its own
+ * vehicles. Records that fail validation are left out.
  */
-interface ChatPanelProps {
-  accessToken: string | null;
+function mentionedVehicles(text: string, policyInfoData: unknown): Vehicle[] {
+  if (!policyInfoData) return [];
+  try {
+    const { vehicles } = parseVehicleList(policyInfoData);
+    return vehicles.filter((v) => text.includes(v.registrationNumber) || text.includes(`${v.make} ${v.model}`));
+  } catch {
+    return [];
+  }
 }
 
 /**
@@ -34,18 +48,26 @@ interface ChatPanelProps {
  * - Expands to full chat window (400x500px) when clicked
  * - Sends prompts to local chat API (http://localhost:3002/chat)
  * - Displays transaction data from MCP server via APIM
+ * - Sends the conversation ID and recent turns so follow-up questions keep context
+ * - Keeps conversations per user across reloads; new conversation / history list in the header
  * - Only visible when user is authenticated
  *
- * @param accessToken - OAuth access token for API authentication
+ * @param signedIn - Whether the user is authenticated
+ * @param locale - Locale for amounts in responses
+ * @param onSelectVehicle - Opens a vehicle picked from a reply in the main view
+ * @param userId - Signed-in user's `sub`, or null until userinfo has loaded
  */
-export function ChatPanel({ accessToken }: ChatPanelProps) {
+export function ChatPanel({ signedIn, userId, locale, onSelectVehicle }: ChatPanelProps) {
   // State management for chat functionality
-  const [messages, setMessages] = useState<ChatMessage[]>([]); // Array of chat messages
+  const history = useChatHistory(userId); // Stored conversations and the open one
+  const { messages } = history; // Messages of the open conversation
+  const [showHistory, setShowHistory] = useState(false); // Conversation list instead of messages
   const [input, setInput] = useState(""); // Current user input in textarea
   const [loading, setLoading] = useState(false); // Loading state while waiting for API response
   const [error, setError] = useState<string | null>(null); // Error message if API call fails
   const [isCollapsed, setIsCollapsed] = useState(true); // Collapse/expand state (default: collapsed)
   const messagesEndRef = useRef<HTMLDivElement>(null); // Ref to auto-scroll to latest message
+  const abortRef = useRef<AbortController | null>(null); // Cancels the reply in flight
 
   /**
    * Utility function to auto-scroll chat to the latest message
@@ -62,6 +84,14 @@ export function ChatPanel({ accessToken }: ChatPanelProps) {
     scrollToBottom();
   }, [messages]);
 
+  /**
+   * Effect hook: Stop a reply in flight on sign-out and when the panel unmounts
+   */
+  useEffect(() => {
+    if (!signedIn) abortRef.current?.abort();
+  }, [signedIn]);
+  useEffect(() => () => abortRef.current?.abort(), []);
+
   /**
    * sendMessage - Main chat submission handler
    *
@@ -70,21 +100,29 @@ export function ChatPanel({ accessToken }: ChatPanelProps) {
    * 2. Clear previous errors
    * 3. Add user message to chat history
    * 4. Send POST request to http://localhost:3002/chat
-   *    - Passes: prompt (user text) and Authorization header (Bearer token)
-   * 5. Handle response:
-   *    - If transaction keywords detected: Server calls MCP endpoint via APIM
-   *    - Response includes: response text + hadTransactions flag
-   * 6. Display assistant response in chat
+   *    - Passes: prompt (user text), locale, conversationId, history (recent turns) and Authorization header (Bearer token from session manager,
+   *      refreshed and retried once on 401)
+   * 5. Handle response, streamed as server-sent events:
+   *    - progress: server is calling the MCP endpoint via APIM; shown in the bubble
+   *    - token: next piece of the reply, appended to the assistant bubble
+   *    - done: policyInfoData used for vehicle cards
+   *    - A server that does not stream answers with one JSON reply instead
+   * 6. stopResponse aborts the request; the partial reply stays, marked as stopped
    * 7. Handle errors gracefully with user-friendly messages
    *
    * @throws Error if API call fails or response is invalid
    */
   const sendMessage = async () => {
     // Validate before sending: input not empty, user authenticated, not already loading
-    if (!input.trim() || !accessToken || loading) return;
+    if (!input.trim() || !signedIn || loading) return;
 
     const prompt = input;
+    const conversationId = history.activeId;
+    const turns = recentTurns(messages);
+    // Replies keep writing to the conversation they were asked in
+    const setMessages = (update: (prev: ChatMessage[]) => ChatMessage[]) => history.updateMessages(conversationId, update);
     setError(null);
+    setShowHistory(false);
 
     // Create user message object
     const userMessage: ChatMessage = {
@@ -99,47 +137,105 @@ export function ChatPanel({ accessToken }: ChatPanelProps) {
     setInput("");
     setLoading(true);
 
+    const controller = new AbortController();
+    abortRef.current = controller;
+    const assistantId = (Date.now() + 1).toString();
+
+    // Update the assistant bubble, creating it on the first event
+    const updateAssistant = (patch: (msg: ChatMessage) => Partial<ChatMessage>) => {
+      setMessages((prev) => {
+        const existing = prev.find((m) => m.id === assistantId);
+        if (existing) return prev.map((m) => (m.id === assistantId ? { ...m, ...patch(m) } : m));
+        const created: ChatMessage = { id: assistantId, role: "assistant", content: "", timestamp: new Date(), streaming: true };
+        return [...prev, { ...created, ...patch(created) }];
+      });
+    };
+
     try {
       // Send message to local chat API server
-      const response = await fetch("http://localhost:3002/chat", {
+      const response = await authorizedFetch("http://localhost:3002/chat", {
         method: "POST",
         headers: {
           "Content-Type": "application/json",
-          Authorization: `Bearer ${accessToken}`, // OAuth token for authentication
+          Accept: "text/event-stream, application/json",
         },
-        body: JSON.stringify({ prompt: prompt }),
+        body: JSON.stringify({ prompt: prompt, locale, conversationId, history: turns }),
+        signal: controller.signal,
       });
 
       // Check for HTTP errors
       if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(errorData.message || `HTTP ${response.status}`);
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.message || errorData.error || `HTTP ${response.status}`);
       }
 
-      // Parse successful response
-      const data = await response.json();
-
-      // Create assistant message with optional transaction data flag
-      const assistantMessage: ChatMessage = {
-        id: (Date.now() + 1).toString(),
-        role: "assistant",
-        content: data.response, // AI-generated or locally generated response
-        timestamp: new Date(),
-        hadTransactions: data.hadTransactions, // True if response includes transaction data
-      };
-
-      // Add assistant response to chat history
-      setMessages((prev) => [...prev, assistantMessage]);
+      if (response.body && (response.headers.get("Content-Type") || "").includes("text/event-stream")) {
+        await readEventStream(response.body, ({ event, data }) => {
+          const payload = JSON.parse(data);
+          if (event === "progress") {
+            updateAssistant(() => ({ progress: payload.message }));
+          } else if (event === "token") {
+            updateAssistant((msg) => ({ content: msg.content + payload.text, progress: undefined }));
+          } else if (event === "done") {
+            updateAssistant((msg) => ({
+              streaming: false,
+              progress: undefined,
+              vehicles: mentionedVehicles(msg.content, payload.policyInfoData),
+            }));
+          } else if (event === "error") {
+            throw new Error(payload.message || payload.error || "Chat processing failed");
+          }
+        });
+      } else {
+        // Server without streaming: the whole reply at once
+        const data = await response.json();
+        updateAssistant(() => ({
+          content: data.response, // AI-generated or locally generated response
+          streaming: false,
+          hadTransactions: data.hadTransactions, // True if response includes transaction data
+          vehicles: mentionedVehicles(data.response, data.policyInfoData),
+        }));
+      }
     } catch (err: any) {
-      // Display error to user and log for debugging
-      setError(err.message || "Failed to send message");
-      console.error("Chat error:", err);
+      if (controller.signal.aborted) {
+        // Stopped by the user: keep whatever arrived
+        updateAssistant(() => ({ streaming: false, progress: undefined, cancelled: true }));
+      } else {
+        // Display error to user and log for debugging; drop an empty bubble
+        setMessages((prev) => prev
+          .filter((m) => m.id !== assistantId || m.content)
+          .map((m) => (m.id === assistantId ? { ...m, streaming: false, progress: undefined } : m)));
+        setError(err.message || "Failed to send message");
+        console.error("Chat error:", err);
+      }
     } finally {
       // Always stop loading state after response/error
+      if (abortRef.current === controller) abortRef.current = null;
       setLoading(false);
     }
   };
 
+  /**
+   * stopResponse - Cancel the reply in flight
+   */
+  const stopResponse = () => {
+    abortRef.current?.abort();
+  };
+
+  /**
+   * Header actions: start a new conversation / show past ones
+   */
+  const startConversation = () => {
+    history.startConversation();
+    setShowHistory(false);
+    setError(null);
+  };
+  const openConversation = (conversationId: string) => {
+    history.openConversation(conversationId);
+    setShowHistory(false);
+    setError(null);
+  };
+
   /**
    * handleKeyPress - Keyboard event handler for textarea
    * - Enter: Send message
@@ -153,7 +249,7 @@ export function ChatPanel({ accessToken }: ChatPanelProps) {
   };
 
   // Don't render chat if user is not authenticated
-  if (!accessToken) {
+  if (!signedIn) {
     return null;
   }
 
@@ -224,6 +320,35 @@ export function ChatPanel({ accessToken }: ChatPanelProps) {
                 Ask about your transactions
               </p>
             </div>
+            <div style={{ display: "flex", alignItems: "center", gap: "4px" }}>
+            {/* New conversation and history buttons - locked while a reply is in flight */}
+            {[
+              { title: "New conversation", icon: <Plus size={18} />, onClick: startConversation, active: false },
+              { title: "Past conversations", icon: <History size={18} />, onClick: () => setShowHistory(!showHistory), active: showHistory },
+            ].map((action) => (
+              <button
+                key={action.title}
+                title={action.title}
+                disabled={loading}
+                onClick={(e) => {
+                  e.stopPropagation();
+                  action.onClick();
+                }}
+                style={{
+                  background: action.active ? "#e2e8f0" : "none",
+                  border: "none",
+                  borderRadius: "6px",
+                  cursor: loading ? "not-allowed" : "pointer",
+                  color: "#64748b",
+                  padding: "4px",
+                  display: "flex",
+                  alignItems: "center",
+                  opacity: loading ? 0.5 : 1,
+                }}
+              >
+                {action.icon}
+              </button>
+            ))}
             {/* Close button (chevron icon) to collapse the chat */}
             <button
               onClick={(e) => {
@@ -242,6 +367,7 @@ export function ChatPanel({ accessToken }: ChatPanelProps) {
             >
               <ChevronDown size={20} />
             </button>
+            </div>
           </>
         )}
       </div>
@@ -258,8 +384,19 @@ export function ChatPanel({ accessToken }: ChatPanelProps) {
           gap: "12px",
         }}
       >
+        {/* Past conversations, in place of the messages */}
+        {showHistory && (
+          <ChatHistoryList
+            conversations={history.conversations}
+            activeId={history.activeId}
+            onOpen={openConversation}
+            onDelete={history.deleteConversation}
+            onClear={history.clearHistory}
+          />
+        )}
+
         {/* Empty state message */}
-        {messages.length === 0 && (
+        {!showHistory && messages.length === 0 && (
           <div
             style={{
               textAlign: "center",
@@ -273,7 +410,7 @@ export function ChatPanel({ accessToken }: ChatPanelProps) {
         )}
 
         {/* Render all messages with fade-in animation */}
-        {messages.map((msg) => (
+        {!showHistory && messages.map((msg) => (
           <motion.div
             key={msg.id}
             initial={{ opacity: 0, y: 10 }}      // Fade in from below
@@ -299,9 +436,26 @@ export function ChatPanel({ accessToken }: ChatPanelProps) {
                   fontSize: "14px",
                   lineHeight: "1.5",
                   wordWrap: "break-word",
+                  whiteSpace: msg.role === "user" ? "pre-wrap" : "normal",
                 }}
               >
-                {msg.content}
+                {/* Assistant replies are markdown; user text is shown as typed */}
+                {msg.role === "assistant" ? <ChatMarkdown text={msg.content} /> : msg.content}
+                {/* Tool call progress while the reply streams */}
+                {msg.progress && (
+                  <div style={{ display: "flex", alignItems: "center", gap: "6px", marginTop: msg.content ? "8px" : 0, fontSize: "12px", color: "#475569" }}>
+                    <Loader2 size={12} style={{ animation: "spin 1s linear infinite" }} />
+                    {msg.progress}
+                  </div>
+                )}
+                {msg.cancelled && (
+                  <div style={{ marginTop: msg.content ? "8px" : 0, fontSize: "12px", opacity: 0.8, fontStyle: "italic" }}>
+                    {msg.content ? "(stopped)" : "Response cancelled."}
+                  </div>
+                )}
+                {msg.vehicles && msg.vehicles.length > 0 && (
+                  <ChatVehicleCards vehicles={msg.vehicles} locale={locale} onSelect={onSelectVehicle} />
+                )}
                 {/* Badge showing if response includes transaction data */}
                 {msg.hadTransactions && (
                   <div
@@ -320,8 +474,8 @@ export function ChatPanel({ accessToken }: ChatPanelProps) {
           </motion.div>
         ))}
 
-        {/* Loading state - shows spinning icon while waiting for response */}
-        {loading && (
+        {/* Loading state - shows spinning icon until the first part of the reply arrives */}
+        {loading && messages[messages.length - 1]?.role === "user" && (
           <div style={{ display: "flex", justifyContent: "flex-start" }}>
             <div
               style={{
@@ -345,7 +499,7 @@ export function ChatPanel({ accessToken }: ChatPanelProps) {
         )}
 
         {/* Error message - shown if API call fails */}
-        {error && (
+        {!showHistory && error && (
           <div
             style={{
               padding: "12px 16px",
@@ -396,33 +550,49 @@ export function ChatPanel({ accessToken }: ChatPanelProps) {
               cursor: loading ? "not-allowed" : "text",
             }}
           />
-          {/* Send Button */}
-          <button
-            onClick={sendMessage}
-            disabled={loading || !input.trim()}  // Disable if loading or no text
-            style={{
-              padding: "10px 16px",
-              // Gray if disabled, blue if enabled
-              backgroundColor:
-                loading || !input.trim() ? "#cbd5e1" : "#3b82f6",
-              color: "#ffffff",
-              border: "none",
-              borderRadius: "8px",
-              cursor: loading || !input.trim() ? "not-allowed" : "pointer",
-              display: "flex",
-              alignItems: "center",
-              gap: "6px",
-              fontSize: "14px",
-              fontWeight: "500",
-            }}
-          >
-            {/* Show spinner icon while loading, send icon otherwise */}
-            {loading ? (
-              <Loader2 size={16} style={{ animation: "spin 1s linear infinite" }} />
-            ) : (
+          {/* Send Button - becomes a Stop button while a reply is in flight */}
+          {loading ? (
+            <button
+              onClick={stopResponse}
+              title="Stop response"
+              style={{
+                padding: "10px 16px",
+                backgroundColor: "#ef4444",
+                color: "#ffffff",
+                border: "none",
+                borderRadius: "8px",
+                cursor: "pointer",
+                display: "flex",
+                alignItems: "center",
+                gap: "6px",
+                fontSize: "14px",
+                fontWeight: "500",
+              }}
+            >
+              <Square size={16} />
+            </button>
+          ) : (
+            <button
+              onClick={sendMessage}
+              disabled={!input.trim()}  // Disable if no text
+              style={{
+                padding: "10px 16px",
+                // Gray if disabled, blue if enabled
+                backgroundColor: !input.trim() ? "#cbd5e1" : "#3b82f6",
+                color: "#ffffff",
+                border: "none",
+                borderRadius: "8px",
+                cursor: !input.trim() ? "not-allowed" : "pointer",
+                display: "flex",
+                alignItems: "center",
+                gap: "6px",
+                fontSize: "14px",
+                fontWeight: "500",
+              }}
+            >
               <Send size={16} />
-            )}
-          </button>
+            </button>
+          )}
         </div>
       </div>
       )}
@@ -0,0 +1,39 @@
+/**
+ * AppHeader - brand and sign in / sign out button
+ */
+
+import React from "react";
+import { LogIn, LogOut } from "lucide-react";
+import { OIDC_CONFIG as C } from "../../config";
+import { Btn } from "./Primitives";
+
+interface AppHeaderProps {
+  signedIn: boolean;
+  onLogin: () => void;
+  onLogout: () => void;
+}
+
+export function AppHeader({ signedIn, onLogin, onLogout }: AppHeaderProps) {
+  return (
+    <header style={{ maxWidth: 1024, margin: "0 auto", padding: "24px", display: "flex", alignItems: "center", justifyContent: "space-between" }}>
+      <div style={{ display: "flex", alignItems: "center", gap: 12 }}>
+        <div style={{ width: 40, height: 40, borderRadius: 16, background: "#0f172a", color: "white", display: "flex", alignItems: "center", justifyContent: "center", fontWeight: "bold" }}>B</div>
+        <div>
+          <h1 style={{ fontSize: 18, fontWeight: 600 }}>{C.INSURANCE_NAME}</h1>
+          <p style={{ fontSize: 12, color: "#64748b" }}>Motor Insurance Demo</p>
+        </div>
+      </div>
+      <div style={{ display: "flex", alignItems: "center", gap: 12 }}>
+        {signedIn ? (
+          <Btn onClick={onLogout}>
+            <LogOut size={16} /> Sign out
+          </Btn>
+        ) : (
+          <Btn primary onClick={onLogin}>
+            <LogIn size={16} /> Sign in with WSO2 IS
+          </Btn>
+        )}
+      </div>
+    </header>
+  );
+}
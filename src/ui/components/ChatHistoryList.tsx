@@ -0,0 +1,63 @@
+/**
+ * ChatHistoryList - past chat conversations, newest first, to reopen or delete
+ */
+
+import React from "react";
+import { Trash2 } from "lucide-react";
+import type { Conversation } from "../../chatStore";
+
+interface ChatHistoryListProps {
+  conversations: Conversation[];
+  activeId: string;
+  onOpen: (conversationId: string) => void;
+  onDelete: (conversationId: string) => void;
+  onClear: () => void;
+}
+
+export function ChatHistoryList({ conversations, activeId, onOpen, onDelete, onClear }: ChatHistoryListProps) {
+  if (!conversations.length) {
+    return <div style={{ textAlign: "center", color: "#94a3b8", fontSize: 14, paddingTop: 24 }}>No past conversations.</div>;
+  }
+
+  return (
+    <div style={{ display: "grid", gap: 6 }}>
+      {conversations.map((c) => (
+        <div
+          key={c.id}
+          style={{
+            display: "flex",
+            alignItems: "center",
+            gap: 8,
+            padding: "8px 10px",
+            borderRadius: 8,
+            border: c.id === activeId ? "1px solid #3b82f6" : "1px solid #e2e8f0",
+            background: c.id === activeId ? "#eff6ff" : "white",
+          }}
+        >
+          <button
+            onClick={() => onOpen(c.id)}
+            style={{ flex: 1, minWidth: 0, border: "none", background: "none", padding: 0, textAlign: "left", cursor: "pointer", color: "#0f172a" }}
+          >
+            <div style={{ fontSize: 13, fontWeight: 600, overflow: "hidden", textOverflow: "ellipsis", whiteSpace: "nowrap" }}>{c.title}</div>
+            <div style={{ fontSize: 11, color: "#64748b" }}>
+              {new Date(c.updatedAt).toLocaleString()} • {c.messages.length} message{c.messages.length === 1 ? "" : "s"}
+            </div>
+          </button>
+          <button
+            title="Delete conversation"
+            onClick={() => onDelete(c.id)}
+            style={{ border: "none", background: "none", cursor: "pointer", color: "#94a3b8", display: "inline-flex", padding: 4 }}
+          >
+            <Trash2 size={14} />
+          </button>
+        </div>
+      ))}
+      <button
+        onClick={() => { if (window.confirm("Delete all chat history?")) onClear(); }}
+        style={{ marginTop: 4, border: "none", background: "none", cursor: "pointer", color: "#dc2626", fontSize: 12, justifySelf: "center" }}
+      >
+        Clear history
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,112 @@
+/**
+ * ChatMarkdown - renders the small markdown subset the chat server writes
+ * (headings, paragraphs, numbered / bulleted lists with indented continuation
+ * lines, **bold**, *italic*, `code` and links) as React elements.
+ *
+ * Nothing is injected as HTML: tags in the source are stripped, text is
+ * escaped by React, and only http(s) / mailto links become anchors.
+ */
+
+import React from "react";
+
+type Block =
+  | { kind: "heading"; text: string }
+  | { kind: "paragraph"; lines: string[] }
+  | { kind: "list"; ordered: boolean; start: number; items: string[][] };
+
+const ORDERED_ITEM = /^\s{0,3}(\d+)[.)]\s+(.*)$/;
+const BULLET_ITEM = /^\s{0,3}[-*•]\s+(.*)$/;
+const HEADING = /^\s{0,3}#{1,6}\s+(.*)$/;
+const CONTINUATION = /^\s{2,}\S/;
+const INLINE = /(\*\*[^*]+\*\*|__[^_]+__|`[^`]+`|\*[^*\s](?:[^*]*[^*\s])?\*|\[[^\]]+\]\([^)\s]+\))/g;
+const SAFE_LINK = /^(https?:|mailto:)/i;
+
+function stripHtml(source: string): string {
+  return source.replace(/<!--[\s\S]*?-->/g, "").replace(/<\/?[a-z][^>]*>/gi, "");
+}
+
+function parseBlocks(source: string): Block[] {
+  const blocks: Block[] = [];
+  let current: Block | null = null;
+
+  for (const line of stripHtml(source).replace(/\r\n?/g, "\n").split("\n")) {
+    const ordered = ORDERED_ITEM.exec(line);
+    const bullet = ordered ? null : BULLET_ITEM.exec(line);
+    const heading = HEADING.exec(line);
+
+    if (!line.trim()) {
+      // A blank line ends a paragraph; a list carries on if the next line is another item
+      if (current?.kind !== "list") current = null;
+    } else if (heading) {
+      blocks.push({ kind: "heading", text: heading[1] });
+      current = null;
+    } else if (ordered || bullet) {
+      const text = ordered ? ordered[2] : bullet![1];
+      if (current?.kind === "list" && current.ordered === !!ordered) {
+        current.items.push([text]);
+      } else {
+        current = { kind: "list", ordered: !!ordered, start: ordered ? Number(ordered[1]) : 1, items: [[text]] };
+        blocks.push(current);
+      }
+    } else if (current?.kind === "list" && CONTINUATION.test(line)) {
+      current.items[current.items.length - 1].push(line.trim());
+    } else if (current?.kind === "paragraph") {
+      current.lines.push(line.trim());
+    } else {
+      current = { kind: "paragraph", lines: [line.trim()] };
+      blocks.push(current);
+    }
+  }
+  return blocks;
+}
+
+function renderInline(text: string): React.ReactNode[] {
+  return text.split(INLINE).map((part, i) => {
+    if (i % 2 === 0) return part;
+    if (part.startsWith("**") || part.startsWith("__")) return <strong key={i}>{renderInline(part.slice(2, -2))}</strong>;
+    if (part.startsWith("`")) {
+      return <code key={i} style={{ fontFamily: "monospace", fontSize: "0.9em", background: "rgba(15, 23, 42, 0.08)", padding: "0 4px", borderRadius: 4 }}>{part.slice(1, -1)}</code>;
+    }
+    if (part.startsWith("[")) {
+      const split = part.indexOf("](");
+      const label = part.slice(1, split);
+      const href = part.slice(split + 2, -1);
+      return SAFE_LINK.test(href)
+        ? <a key={i} href={href} target="_blank" rel="noopener noreferrer" style={{ color: "#2563eb" }}>{label}</a>
+        : label;
+    }
+    return <em key={i}>{renderInline(part.slice(1, -1))}</em>;
+  });
+}
+
+/**
+ * Lines of one paragraph or list item, kept on separate lines as written
+ */
+function renderLines(lines: string[]): React.ReactNode[] {
+  return lines.map((line, i) => (
+    <React.Fragment key={i}>
+      {i > 0 && <br />}
+      {renderInline(line)}
+    </React.Fragment>
+  ));
+}
+
+export function ChatMarkdown({ text }: { text: string }) {
+  return (
+    <div style={{ display: "grid", gap: 8 }}>
+      {parseBlocks(text).map((block, i) => {
+        if (block.kind === "heading") {
+          return <div key={i} style={{ fontWeight: 700 }}>{renderInline(block.text)}</div>;
+        }
+        if (block.kind === "paragraph") {
+          return <p key={i} style={{ margin: 0 }}>{renderLines(block.lines)}</p>;
+        }
+        const items = block.items.map((lines, j) => <li key={j} style={{ marginBottom: 4 }}>{renderLines(lines)}</li>);
+        const listStyle: React.CSSProperties = { margin: 0, paddingLeft: 20 };
+        return block.ordered
+          ? <ol key={i} start={block.start} style={listStyle}>{items}</ol>
+          : <ul key={i} style={listStyle}>{items}</ul>;
+      })}
+    </div>
+  );
+}
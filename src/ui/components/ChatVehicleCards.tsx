@@ -0,0 +1,67 @@
+/**
+ * ChatVehicleCards - vehicles from a chat reply's policy data; clicking one
+ * opens it in the main view
+ */
+
+import React from "react";
+import { Car } from "lucide-react";
+import type { Vehicle } from "../../api";
+import { formatMoney } from "../../money";
+
+interface ChatVehicleCardsProps {
+  vehicles: Vehicle[];
+  locale: string;
+  onSelect: (vehicle: Vehicle) => void;
+}
+
+export function ChatVehicleCards({ vehicles, locale, onSelect }: ChatVehicleCardsProps) {
+  return (
+    <div style={{ display: "grid", gap: 6, marginTop: 10 }}>
+      {vehicles.map((vehicle) => {
+        const { isInsured, insuredUntil } = vehicle.insuranceStatus;
+        return (
+          <button
+            key={vehicle.vehicleId}
+            onClick={() => onSelect(vehicle)}
+            title="Show this vehicle"
+            style={{
+              display: "flex",
+              alignItems: "center",
+              gap: 10,
+              width: "100%",
+              padding: "8px 10px",
+              borderRadius: 8,
+              border: "1px solid #cbd5e1",
+              background: "white",
+              cursor: "pointer",
+              textAlign: "left",
+              fontSize: 12,
+              color: "#0f172a",
+            }}
+          >
+            <Car size={16} style={{ flexShrink: 0, color: "#475569" }} />
+            <div style={{ flex: 1, minWidth: 0 }}>
+              <div style={{ fontWeight: 600 }}>{vehicle.make} {vehicle.model}</div>
+              <div style={{ color: "#64748b" }}>
+                {vehicle.registrationNumber} • {formatMoney(vehicle.estimatedValue, vehicle.currency, locale)}
+              </div>
+            </div>
+            <span
+              style={{
+                padding: "2px 6px",
+                borderRadius: 6,
+                fontSize: 11,
+                fontWeight: 600,
+                whiteSpace: "nowrap",
+                background: isInsured ? "#dcfce7" : "#fee2e2",
+                color: isInsured ? "#166534" : "#991b1b",
+              }}
+            >
+              {isInsured ? (insuredUntil ? `Insured to ${insuredUntil}` : "Insured") : "Not insured"}
+            </span>
+          </button>
+        );
+      })}
+    </div>
+  );
+}
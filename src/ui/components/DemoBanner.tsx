@@ -0,0 +1,15 @@
+/**
+ * DemoBanner - shown while DEMO_MODE serves data from the mock backend
+ */
+
+import React from "react";
+
+export function DemoBanner() {
+  return (
+    <div style={{ maxWidth: 1024, margin: "0 auto 16px", padding: "0 24px" }}>
+      <div style={{ padding: "10px 14px", borderRadius: 12, background: "#fef3c7", border: "1px solid #fcd34d", color: "#92400e", fontSize: 13 }}>
+        <strong>Demo data</strong> — vehicles, quotes and policies come from an in-memory mock backend, not your account. Set <code>DEMO_MODE</code> to <code>false</code> in <code>src/config.ts</code> to use APIM.
+      </div>
+    </div>
+  );
+}
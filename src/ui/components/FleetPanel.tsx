@@ -0,0 +1,189 @@
+/**
+ * FleetPanel - vehicles selected for a batch: per-vehicle quote and purchase
+ * results, aggregated premium, and the single step-up for the batch purchase
+ */
+
+import React from "react";
+import { Loader2, FileText, ShieldCheck, X } from "lucide-react";
+import { StepUpFlow } from "../../auth/stepUp";
+import { FleetItem, FleetItemStatus, fleetOption, fleetPremiumTotals, fleetTiers, purchasableItems } from "../../fleet";
+import { Money, formatMoney, sumMoney } from "../../money";
+import { Btn, CardBox } from "./Primitives";
+import { StepUpPanel } from "./StepUpPanel";
+
+interface FleetPanelProps {
+  items: FleetItem[];
+  tier: string;
+  onTierChange: (tier: string) => void;
+  quoting: boolean;
+  purchasing: boolean;
+  checking: boolean;
+  /** Another purchase step-up is open */
+  locked: boolean;
+  onQuote: () => void;
+  onPurchase: () => void;
+  onCheckStatus: () => void;
+  onRemove: (vehicleId: string) => void;
+  onClear: () => void;
+  flow: StepUpFlow | null;
+  stepUpBusy: boolean;
+  stepUpError: string | null;
+  onSubmit: (authenticatorId: string, params: Record<string, string>) => void;
+  onCancel: () => void;
+  locale: string;
+}
+
+const STATUS_LABELS: Record<FleetItemStatus, [string, string, string]> = {
+  // label, background, colour
+  selected: ["Selected", "#f1f5f9", "#475569"],
+  skipped: ["Skipped", "#f1f5f9", "#475569"],
+  quoting: ["Quoting…", "#dbeafe", "#1e40af"],
+  quoted: ["Quoted", "#dbeafe", "#1e40af"],
+  quote_failed: ["Quote failed", "#fee2e2", "#991b1b"],
+  purchasing: ["Buying…", "#e0f2fe", "#075985"],
+  purchased: ["✓ Insured", "#dcfce7", "#166534"],
+  purchase_failed: ["Not bought", "#fee2e2", "#991b1b"],
+  unconfirmed: ["Unconfirmed", "#fef3c7", "#92400e"],
+};
+
+export function FleetPanel({
+  items,
+  tier,
+  onTierChange,
+  quoting,
+  purchasing,
+  checking,
+  locked,
+  onQuote,
+  onPurchase,
+  onCheckStatus,
+  onRemove,
+  onClear,
+  flow,
+  stepUpBusy,
+  stepUpError,
+  onSubmit,
+  onCancel,
+  locale,
+}: FleetPanelProps) {
+  const buyable = purchasableItems(items);
+  const totals = fleetPremiumTotals(buyable, tier);
+  // Mixed currencies get one grand total only when exchange rates are configured
+  let grandTotal: Money | null = null;
+  if (totals.length > 1) {
+    try { grandTotal = sumMoney(totals); } catch { grandTotal = null; }
+  }
+  const tiers = fleetTiers(items);
+  const busy = quoting || purchasing || checking || stepUpBusy || !!flow;
+  const purchasedCount = items.filter((i) => i.status === "purchased").length;
+  const failedCount = items.filter((i) => i.status === "purchase_failed" || i.status === "unconfirmed").length;
+
+  return (
+    <CardBox>
+      <div style={{ display: "flex", alignItems: "center", justifyContent: "space-between", marginBottom: 12 }}>
+        <h3 style={{ fontSize: 16, fontWeight: 600 }}>Fleet ({items.length} vehicle{items.length === 1 ? "" : "s"})</h3>
+        <Btn onClick={onClear} disabled={busy} style={{ padding: "6px 10px", fontSize: 12 }}>Clear selection</Btn>
+      </div>
+
+      <div style={{ display: "grid", gap: 8, marginBottom: 16 }}>
+        {items.map((item) => {
+          const [label, background, color] = STATUS_LABELS[item.status];
+          const option = item.quote && fleetOption(item.quote, tier);
+          return (
+            <div key={item.vehicle.vehicleId} style={{ display: "flex", alignItems: "center", gap: 12, padding: "8px 12px", borderRadius: 8, border: "1px solid #e2e8f0", fontSize: 13 }}>
+              <div style={{ flex: 1, minWidth: 0 }}>
+                <div style={{ fontWeight: 600 }}>{item.vehicle.registrationNumber}</div>
+                <div style={{ fontSize: 12, color: "#64748b" }}>
+                  {item.vehicle.make} {item.vehicle.model} • {item.vehicle.type}
+                </div>
+                {item.error && <div style={{ fontSize: 12, color: "#dc2626", marginTop: 2 }}>{item.error}</div>}
+                {item.policy && <div style={{ fontSize: 12, color: "#166534", marginTop: 2 }}>Policy {item.policy.policyNumber}</div>}
+              </div>
+              {option && item.status !== "purchased" && (
+                <div style={{ textAlign: "right", whiteSpace: "nowrap" }}>
+                  <div style={{ fontWeight: 600 }}>{formatMoney(option.premium, item.vehicle.currency, locale)}</div>
+                  <div style={{ fontSize: 11, color: "#64748b" }}>{option.name}</div>
+                </div>
+              )}
+              <span style={{ padding: "4px 8px", borderRadius: 6, fontSize: 11, fontWeight: 600, background, color, whiteSpace: "nowrap" }}>{label}</span>
+              <button
+                title="Remove from fleet"
+                onClick={() => onRemove(item.vehicle.vehicleId)}
+                disabled={busy}
+                style={{ border: "none", background: "none", cursor: "pointer", color: "#94a3b8", display: "inline-flex" }}
+              >
+                <X size={14} />
+              </button>
+            </div>
+          );
+        })}
+      </div>
+
+      {tiers.length > 0 && (
+        <div style={{ display: "flex", alignItems: "center", gap: 8, marginBottom: 12, fontSize: 13 }}>
+          <span style={{ color: "#64748b" }}>Coverage for all vehicles:</span>
+          <select
+            value={tier}
+            onChange={(e) => onTierChange(e.target.value)}
+            disabled={busy}
+            style={{ padding: "6px 8px", borderRadius: 8, border: "1px solid #cbd5e1", fontSize: 13 }}
+          >
+            <option value="">Recommended per vehicle</option>
+            {tiers.map((t) => <option key={t.tier} value={t.tier}>{t.name}</option>)}
+          </select>
+        </div>
+      )}
+
+      {totals.length > 0 && (
+        <div style={{ padding: 12, marginBottom: 16, borderRadius: 8, background: "#f8fafc", fontSize: 14 }}>
+          {totals.map((t) => (
+            <div key={t.currency} style={{ display: "flex", justifyContent: "space-between" }}>
+              <span style={{ color: "#64748b" }}>Total premium ({t.vehicles} vehicle{t.vehicles === 1 ? "" : "s"}):</span>
+              <span style={{ fontWeight: 700 }}>{formatMoney(t.amount, t.currency, locale)}</span>
+            </div>
+          ))}
+          {totals.length > 1 && (grandTotal ? (
+            <div style={{ display: "flex", justifyContent: "space-between", marginTop: 4, paddingTop: 4, borderTop: "1px solid #e2e8f0" }}>
+              <span style={{ color: "#64748b" }}>Approximate total:</span>
+              <span style={{ fontWeight: 700 }}>{formatMoney(Math.round(grandTotal.amount), grandTotal.currency, locale)}</span>
+            </div>
+          ) : (
+            <div style={{ fontSize: 12, color: "#64748b", marginTop: 4 }}>
+              Premiums in different currencies are charged and totalled separately.
+            </div>
+          ))}
+        </div>
+      )}
+
+      {(purchasedCount > 0 || failedCount > 0) && !purchasing && (
+        <div style={{ fontSize: 13, color: "#475569", marginBottom: 12 }}>
+          {purchasedCount} insured{failedCount > 0 && `, ${failedCount} not completed — see the vehicles above`}.
+        </div>
+      )}
+
+      {flow ? (
+        <StepUpPanel flow={flow} busy={stepUpBusy} error={stepUpError} onSubmit={onSubmit} onCancel={onCancel} />
+      ) : (
+        <>
+          <div style={{ display: "flex", gap: 8, flexWrap: "wrap" }}>
+            <Btn onClick={onQuote} disabled={busy || locked}>
+              {quoting ? <Loader2 size={16} /> : <FileText size={16} />}
+              {quoting ? "Quoting..." : "Get quotes"}
+            </Btn>
+            <Btn primary onClick={onPurchase} disabled={busy || locked || buyable.length === 0}>
+              {stepUpBusy || purchasing ? <Loader2 size={16} /> : <ShieldCheck size={16} />}
+              {purchasing ? "Buying..." : `Buy cover for ${buyable.length} vehicle${buyable.length === 1 ? "" : "s"}`}
+            </Btn>
+            {items.some((i) => i.status === "unconfirmed") && (
+              <Btn onClick={onCheckStatus} disabled={busy}>
+                {checking ? <Loader2 size={16} /> : null}
+                {checking ? "Checking..." : "Check status"}
+              </Btn>
+            )}
+          </div>
+          {stepUpError && <div style={{ color: "#dc2626", marginTop: 8, fontSize: 14 }}>{stepUpError}</div>}
+        </>
+      )}
+    </CardBox>
+  );
+}
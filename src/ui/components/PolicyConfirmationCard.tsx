@@ -0,0 +1,57 @@
+/**
+ * PolicyConfirmationCard - the policy just bought, with a downloadable summary
+ */
+
+import React from "react";
+import { FileText } from "lucide-react";
+import { PurchaseConfirmation, downloadPolicySummary } from "../../policySummary";
+import { formatMoney } from "../../money";
+import { Btn, CardBox } from "./Primitives";
+
+interface PolicyConfirmationCardProps {
+  confirmation: PurchaseConfirmation;
+  onDone: () => void;
+  locale: string;
+}
+
+export function PolicyConfirmationCard({ confirmation, onDone, locale }: PolicyConfirmationCardProps) {
+  const { policy, vehicle, quote, optionName } = confirmation;
+
+  return (
+    <CardBox>
+      <div style={{ padding: 12, marginBottom: 16, borderRadius: 8, background: "#dcfce7", border: "1px solid #86efac", color: "#166534" }}>
+        ✓ {quote.renewalOf ? "Policy renewed" : "Insurance purchased"} successfully!
+      </div>
+      <h3 style={{ fontSize: 16, fontWeight: 600, marginBottom: 12 }}>
+        {vehicle.make} {vehicle.model} - Policy Confirmation
+      </h3>
+      <div style={{ display: "grid", gap: 8, marginBottom: 16, fontSize: 14 }}>
+        {[
+          ["Policy Number", <span style={{ fontFamily: "ui-monospace" }}>{policy.policyNumber}</span>],
+          ["Status", <span style={{ fontWeight: 600, color: policy.status === "Active" ? "#16a34a" : "#b45309" }}>{policy.status}</span>],
+          ["Registration", vehicle.registrationNumber],
+          ["Coverage", policy.coverage || optionName],
+          ["Start Date", policy.startDate],
+          ["End Date", policy.endDate],
+          ["Premium", formatMoney(policy.premium, vehicle.currency, locale)],
+        ].map(([label, value], i, rows) => (
+          <div key={String(label)} style={{ display: "flex", justifyContent: "space-between", padding: "8px 0", borderBottom: i < rows.length - 1 ? "1px solid #e2e8f0" : "none" }}>
+            <span style={{ color: "#64748b" }}>{label}:</span>
+            <span>{value}</span>
+          </div>
+        ))}
+      </div>
+      {policy.status === "PendingRenewal" && (
+        <p style={{ fontSize: 13, color: "#475569", marginBottom: 16 }}>
+          The renewal takes effect on {policy.startDate}, when your current policy ends.
+        </p>
+      )}
+      <div style={{ display: "flex", gap: 8 }}>
+        <Btn primary onClick={() => downloadPolicySummary(confirmation, locale)}>
+          <FileText size={16} /> Download summary
+        </Btn>
+        <Btn onClick={onDone}>Done</Btn>
+      </div>
+    </CardBox>
+  );
+}
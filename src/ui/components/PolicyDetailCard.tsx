@@ -0,0 +1,60 @@
+/**
+ * PolicyDetailCard - current policy facts and a timeline of the vehicle's policies
+ */
+
+import React from "react";
+import { VehicleDetail } from "../../api";
+import { formatMoney } from "../../money";
+import { Btn, CardBox } from "./Primitives";
+
+interface PolicyDetailCardProps {
+  detail: VehicleDetail;
+  onClose: () => void;
+  locale: string;
+}
+
+export function PolicyDetailCard({ detail, onClose, locale }: PolicyDetailCardProps) {
+  return (
+    <CardBox>
+      <div style={{ display: "flex", alignItems: "center", justifyContent: "space-between", marginBottom: 12 }}>
+        <h3 style={{ fontSize: 16, fontWeight: 600 }}>Policy Details</h3>
+        <Btn onClick={onClose}>Close</Btn>
+      </div>
+      {!detail.policy ? (
+        <p style={{ fontSize: 14, color: "#475569" }}>No policy details available for this vehicle.</p>
+      ) : (
+        <div style={{ display: "grid", gap: 8, marginBottom: 16, fontSize: 14 }}>
+          {[
+            ["Policy Number", <span style={{ fontFamily: "ui-monospace" }}>{detail.policy.policyNumber}</span>],
+            ["Status", <span style={{ fontWeight: 600, color: detail.policy.status === "Active" ? "#16a34a" : detail.policy.status === "PendingRenewal" ? "#b45309" : "#dc2626" }}>{detail.policy.status}</span>],
+            ["Coverage", detail.policy.coverage || "—"],
+            ["Start Date", detail.policy.startDate],
+            ["End Date", detail.policy.endDate],
+            ["Premium", formatMoney(detail.policy.premium, detail.vehicle.currency, locale)],
+          ].map(([label, value], i, rows) => (
+            <div key={String(label)} style={{ display: "flex", justifyContent: "space-between", padding: "8px 0", borderBottom: i < rows.length - 1 ? "1px solid #e2e8f0" : "none" }}>
+              <span style={{ color: "#64748b" }}>{label}:</span>
+              <span>{value}</span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {detail.policyHistory.length > 0 && (
+        <>
+          <div style={{ fontSize: 12, fontWeight: 600, color: "#475569", marginBottom: 8 }}>Policy History</div>
+          <div style={{ borderLeft: "2px solid #e2e8f0", marginLeft: 6, paddingLeft: 16, display: "grid", gap: 12 }}>
+            {detail.policyHistory.map((p) => (
+              <div key={p.id} style={{ position: "relative", fontSize: 12, color: "#475569" }}>
+                <span style={{ position: "absolute", left: -23, top: 3, width: 10, height: 10, borderRadius: "50%", background: p.status === "Active" ? "#16a34a" : p.status === "PendingRenewal" ? "#f59e0b" : "#94a3b8" }} />
+                <div style={{ fontWeight: 600, color: "#0f172a" }}>{p.startDate} → {p.endDate}</div>
+                <div>{p.policyNumber} • {p.coverage || "—"} • {p.status}</div>
+                <div>Premium: {formatMoney(p.premium, detail.vehicle.currency, locale)}</div>
+              </div>
+            ))}
+          </div>
+        </>
+      )}
+    </CardBox>
+  );
+}
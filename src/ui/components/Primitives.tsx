@@ -0,0 +1,31 @@
+/**
+ * Shared presentational primitives: rounded button and card container
+ */
+
+import React from "react";
+
+export const Btn = (props: any) => (
+  <button
+    {...props}
+    style={{
+      borderRadius: "16px",
+      padding: "10px 14px",
+      border: "1px solid #cbd5e1",
+      background: props.primary ? "#0f172a" : "white",
+      color: props.primary ? "white" : "#0f172a",
+      display: "inline-flex",
+      alignItems: "center",
+      gap: "8px",
+      cursor: "pointer",
+      ...props.style
+    }}
+  >
+    {props.children}
+  </button>
+);
+
+export const CardBox = (props: any) => (
+  <div style={{ border: "1px solid #e2e8f0", borderRadius: "16px", background: "white", boxShadow: "0 1px 2px rgba(0,0,0,0.04)" }}>
+    <div style={{ padding: "24px" }}>{props.children}</div>
+  </div>
+);
@@ -0,0 +1,36 @@
+/**
+ * ProfileCard - /userinfo claims of the signed-in user
+ */
+
+import React from "react";
+import { Loader2 } from "lucide-react";
+import { CardBox } from "./Primitives";
+
+interface ProfileCardProps {
+  signedIn: boolean;
+  userInfo: any;
+}
+
+export function ProfileCard({ signedIn, userInfo }: ProfileCardProps) {
+  return (
+    <CardBox>
+      <h3 style={{ fontWeight: 600, marginBottom: 12 }}>User Profile</h3>
+      {!signedIn ? (
+        <p style={{ fontSize: 14, color: "#475569" }}>No profile. Sign in to fetch claims via <code>/userinfo</code>.</p>
+      ) : !userInfo ? (
+        <div style={{ display: "flex", alignItems: "center", gap: 8, color: "#475569", fontSize: 14 }}>
+          <Loader2 size={16} /> Loading profile…
+        </div>
+      ) : (
+        <div style={{ fontSize: 14 }}>
+          {Object.entries(userInfo).map(([k, v]) => (
+            <div key={k} style={{ display: "flex", justifyContent: "space-between", gap: 12, padding: "6px 0", borderBottom: "1px solid #e2e8f0" }}>
+              <span style={{ color: "#64748b" }}>{k}</span>
+              <span style={{ fontFamily: "ui-monospace, SFMono-Regular, Menlo, monospace", color: "#0f172a", maxWidth: "12rem", overflow: "hidden", textOverflow: "ellipsis", whiteSpace: "nowrap" }} title={String(v)}>{String(v)}</span>
+            </div>
+          ))}
+        </div>
+      )}
+    </CardBox>
+  );
+}
@@ -0,0 +1,51 @@
+/**
+ * PurchasePanel - "Buy Insurance" button, the step-up verification and the
+ * status of a purchase whose outcome is still being confirmed
+ */
+
+import React from "react";
+import { Loader2, ShieldCheck } from "lucide-react";
+import { StepUpFlow } from "../../auth/stepUp";
+import { Btn } from "./Primitives";
+import { StepUpPanel } from "./StepUpPanel";
+
+interface PurchasePanelProps {
+  renewal: boolean;
+  canStart: boolean;
+  /** buy-insurance was sent but its outcome is not known yet */
+  confirming: boolean;
+  reconciling: boolean;
+  onCheckStatus: () => void;
+  flow: StepUpFlow | null;
+  busy: boolean;
+  error: string | null;
+  onStart: () => void;
+  onSubmit: (authenticatorId: string, params: Record<string, string>) => void;
+  onCancel: () => void;
+}
+
+export function PurchasePanel({ renewal, canStart, confirming, reconciling, onCheckStatus, flow, busy, error, onStart, onSubmit, onCancel }: PurchasePanelProps) {
+  return (
+    <>
+      {confirming && !flow ? (
+        <div style={{ display: "flex", alignItems: "center", justifyContent: "space-between", gap: 12, padding: 12, borderRadius: 8, background: "#e0f2fe", border: "1px solid #7dd3fc", color: "#075985", fontSize: 14 }}>
+          <span>We could not confirm your purchase yet. Check its status before trying again.</span>
+          <Btn onClick={onCheckStatus} disabled={reconciling}>
+            {reconciling ? <Loader2 size={16} /> : null}
+            {reconciling ? "Checking..." : "Check status"}
+          </Btn>
+        </div>
+      ) : !flow ? (
+        <>
+          <Btn primary onClick={onStart} disabled={busy || !canStart}>
+            {busy ? <Loader2 size={16} /> : <ShieldCheck size={16} />}
+            {busy ? "Requesting..." : renewal ? "Renew Policy" : "Buy Insurance"}
+          </Btn>
+          {error && <div style={{ color: "#dc2626", marginTop: 8, fontSize: 14 }}>{error}</div>}
+        </>
+      ) : (
+        <StepUpPanel flow={flow} busy={busy} error={error} onSubmit={onSubmit} onCancel={onCancel} />
+      )}
+    </>
+  );
+}
@@ -0,0 +1,130 @@
+/**
+ * QuoteCard - quote summary, expiry notice and coverage option comparison.
+ * The purchase step is passed in as children.
+ */
+
+import React from "react";
+import { Loader2, FileText } from "lucide-react";
+import { Vehicle, Quote, QuoteOption } from "../../api";
+import { formatMoney, formatNumber } from "../../money";
+import { Btn, CardBox } from "./Primitives";
+
+interface QuoteCardProps {
+  vehicle: Vehicle;
+  quote: Quote;
+  quoteExpired: boolean;
+  quoteLoading: boolean;
+  onRequote: () => void;
+  selectedOptionId: string | null;
+  onSelectOption: (optionId: string) => void;
+  /** Option choice is frozen while the purchase step-up is running */
+  locked: boolean;
+  locale: string;
+  children?: React.ReactNode;
+}
+
+/**
+ * Distinct add-ons across a quote's options, for the comparison table rows
+ */
+function quoteAddOnCodes(quote: Quote): [string, string][] {
+  const seen = new Map<string, string>();
+  quote.options.forEach((o) => o.addOns.forEach((a) => seen.set(a.code, a.name)));
+  return Array.from(seen.entries());
+}
+
+export function QuoteCard({ vehicle, quote, quoteExpired, quoteLoading, onRequote, selectedOptionId, onSelectOption, locked, locale, children }: QuoteCardProps) {
+  return (
+    <CardBox>
+      <h3 style={{ fontSize: 16, fontWeight: 600, marginBottom: 12 }}>{quote.renewalOf ? "Renewal Quote" : "Insurance Quote"}</h3>
+      <div style={{ display: "grid", gap: 12, marginBottom: 16, padding: 12, background: "#f8fafc", borderRadius: 8 }}>
+        <div style={{ display: "flex", justifyContent: "space-between" }}>
+          <span style={{ color: "#64748b" }}>Vehicle:</span>
+          <span style={{ fontWeight: 600 }}>{vehicle.make} {vehicle.model}</span>
+        </div>
+        {quote.renewalOf && (
+          <div style={{ display: "flex", justifyContent: "space-between" }}>
+            <span style={{ color: "#64748b" }}>Renewing:</span>
+            <span style={{ fontFamily: "ui-monospace" }}>{quote.renewalOf}</span>
+          </div>
+        )}
+        <div style={{ fontSize: 12, color: quoteExpired ? "#dc2626" : "#64748b" }}>
+          Valid until: {quote.validUntil}{quoteExpired && " (expired)"}
+        </div>
+      </div>
+
+      {quoteExpired && (
+        <div style={{ display: "flex", alignItems: "center", justifyContent: "space-between", gap: 12, padding: 12, marginBottom: 16, borderRadius: 8, background: "#fee2e2", border: "1px solid #fca5a5", color: "#991b1b", fontSize: 14 }}>
+          <span>This quote has expired and can no longer be purchased.</span>
+          <Btn primary onClick={onRequote} disabled={quoteLoading}>
+            {quoteLoading ? <Loader2 size={16} /> : <FileText size={16} />}
+            {quoteLoading ? "Re-quoting..." : "Re-quote"}
+          </Btn>
+        </div>
+      )}
+
+      {/* Coverage comparison: one column per option */}
+      <div style={{ overflowX: "auto", marginBottom: 16 }}>
+        <table style={{ width: "100%", borderCollapse: "collapse", fontSize: 13 }}>
+          <thead>
+            <tr>
+              <th style={{ textAlign: "left", padding: 8, color: "#64748b", fontWeight: 500 }}></th>
+              {quote.options.map((o) => (
+                <th
+                  key={o.id}
+                  onClick={() => { if (!locked) onSelectOption(o.id); }}
+                  style={{
+                    padding: 8,
+                    textAlign: "right",
+                    cursor: locked ? "not-allowed" : "pointer",
+                    borderRadius: "8px 8px 0 0",
+                    background: selectedOptionId === o.id ? "#0f172a" : "#f8fafc",
+                    color: selectedOptionId === o.id ? "white" : "#0f172a"
+                  }}
+                >
+                  {o.name}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {[
+              ["Deductible", (o: QuoteOption) => formatMoney(o.deductible, vehicle.currency, locale)],
+              ...quoteAddOnCodes(quote).map(([code, name]) => [name, (o: QuoteOption) => o.addOns.some((a) => a.code === code) ? "✓" : "—"] as const),
+              ["Base premium", (o: QuoteOption) => formatNumber(o.breakdown.basePremium, locale)],
+              ["Add-ons", (o: QuoteOption) => formatNumber(o.breakdown.addOnPremium, locale)],
+              ["Tax", (o: QuoteOption) => formatNumber(o.breakdown.tax, locale)],
+            ].map(([label, cell]) => (
+              <tr key={String(label)} style={{ borderBottom: "1px solid #e2e8f0" }}>
+                <td style={{ padding: 8, color: "#64748b" }}>{String(label)}</td>
+                {quote.options.map((o) => (
+                  <td key={o.id} style={{ padding: 8, textAlign: "right", background: selectedOptionId === o.id ? "#f1f5f9" : undefined }}>
+                    {(cell as (o: QuoteOption) => string)(o)}
+                  </td>
+                ))}
+              </tr>
+            ))}
+            <tr>
+              <td style={{ padding: 8, color: "#64748b", fontWeight: 600 }}>Premium</td>
+              {quote.options.map((o) => (
+                <td key={o.id} style={{ padding: 8, textAlign: "right", fontWeight: 700, color: "#0f172a", background: selectedOptionId === o.id ? "#f1f5f9" : undefined }}>
+                  {formatMoney(o.premium, vehicle.currency, locale)}
+                </td>
+              ))}
+            </tr>
+            <tr>
+              <td></td>
+              {quote.options.map((o) => (
+                <td key={o.id} style={{ padding: 8, textAlign: "right" }}>
+                  <Btn primary={selectedOptionId === o.id} onClick={() => onSelectOption(o.id)} disabled={locked} style={{ padding: "6px 10px", fontSize: 12 }}>
+                    {selectedOptionId === o.id ? "Selected" : "Choose"}
+                  </Btn>
+                </td>
+              ))}
+            </tr>
+          </tbody>
+        </table>
+      </div>
+      {children}
+    </CardBox>
+  );
+}
@@ -0,0 +1,67 @@
+/**
+ * SessionCard - discovered OIDC endpoints, login / transaction tokens and the latest error
+ */
+
+import React from "react";
+import { ShieldCheck } from "lucide-react";
+import { OIDC_CONFIG as C } from "../../config";
+import { ProviderMetadata } from "../../auth/oidc";
+import { TokenSet } from "../../session";
+import { CardBox } from "./Primitives";
+
+interface SessionCardProps {
+  metadata: ProviderMetadata | null;
+  tokens: TokenSet | null;
+  transactionTokens: TokenSet | null;
+  error: string;
+}
+
+function TokenSummary({ label, tokens, empty }: { label: string; tokens: TokenSet | null; empty: string }) {
+  return (
+    <div style={{ fontSize: 12, color: "#475569", padding: "8px 0", borderTop: "1px solid #e2e8f0" }}>
+      <div style={{ fontWeight: 600, color: "#0f172a", marginBottom: 4 }}>{label}</div>
+      {!tokens ? (
+        <div>{empty}</div>
+      ) : (
+        <>
+          <div><code>client</code>: {tokens._client_id || "—"}</div>
+          <div><code>scope</code>: {tokens.scope || "—"}</div>
+          <div><code>expires</code>: {tokens.expires_at ? new Date(tokens.expires_at).toLocaleTimeString() : "—"}</div>
+          <div style={{ fontFamily: "ui-monospace, SFMono-Regular, Menlo, monospace", overflow: "hidden", textOverflow: "ellipsis", whiteSpace: "nowrap" }} title="access_token">
+            {tokens.access_token.slice(0, 24)}…
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
+
+export function SessionCard({ metadata, tokens, transactionTokens, error }: SessionCardProps) {
+  return (
+    <CardBox>
+      <div style={{ display: "flex", alignItems: "center", gap: 8, marginBottom: 12 }}>
+        <ShieldCheck size={20} />
+        <h3 style={{ fontWeight: 600 }}>OIDC Session</h3>
+      </div>
+      <ul style={{ fontSize: 12, color: "#475569", lineHeight: 1.8 }}>
+        <li><code>issuer</code>: {C.ISSUER}</li>
+        {metadata ? (
+          <>
+            <li><code>authorize</code>: {metadata.authorization_endpoint}</li>
+            <li><code>token</code>: {metadata.token_endpoint}</li>
+            <li><code>userinfo</code>: {metadata.userinfo_endpoint || "—"}</li>
+            <li><code>logout</code>: {metadata.end_session_endpoint || "—"}</li>
+            <li><code>jwks</code>: {metadata.jwks_uri}</li>
+          </>
+        ) : (
+          <li>Loading discovery document…</li>
+        )}
+      </ul>
+      <div style={{ marginTop: 12 }}>
+        <TokenSummary label="Login token" tokens={tokens} empty="Not signed in" />
+        <TokenSummary label="Transaction token" tokens={transactionTokens} empty="None (issued by step-up for a single purchase)" />
+      </div>
+      {error && <div style={{ marginTop: 12, color: "#dc2626", fontSize: 14 }}>{error}</div>}
+    </CardBox>
+  );
+}
@@ -0,0 +1,80 @@
+/**
+ * StepUpPanel - renders the current step of an app-native authentication flow
+ *
+ * Shows a choice when the step offers several authenticators, then the
+ * params the chosen one asks for (OTP code, TOTP token ...) or a single
+ * button for authenticators the app completes itself (passkey).
+ */
+
+import React, { useEffect, useState } from "react";
+import { Loader2, ShieldCheck } from "lucide-react";
+import { StepUpFlow } from "../../auth/stepUp";
+import { Btn } from "./Primitives";
+
+interface StepUpPanelProps {
+  flow: StepUpFlow;
+  busy: boolean;
+  error: string | null;
+  onSubmit: (authenticatorId: string, params: Record<string, string>) => void;
+  onCancel: () => void;
+}
+
+export function StepUpPanel({ flow, busy, error, onSubmit, onCancel }: StepUpPanelProps) {
+  const [chosenId, setChosenId] = useState(flow.authenticators[0]?.authenticatorId || "");
+  const [values, setValues] = useState<Record<string, string>>({});
+
+  // New step (or a failed attempt): start from a clean form
+  useEffect(() => {
+    setChosenId((id) => (flow.authenticators.some((a) => a.authenticatorId === id) ? id : flow.authenticators[0]?.authenticatorId || ""));
+    setValues({});
+  }, [flow]);
+
+  const chosen = flow.authenticators.find((a) => a.authenticatorId === chosenId);
+  const failed = flow.status === "FAIL_COMPLETED";
+  const missing = chosen?.promptType === "USER_PROMPT" && chosen.params.some((p) => !values[p.param]);
+
+  return (
+    <>
+      <div style={{ marginBottom: 16, padding: 12, borderRadius: 8, background: "#fef3c7", border: "1px solid #fcd34d", color: "#92400e" }}>
+        🔐 Verify it's you to continue
+        {flow.messages.map((m, i) => (
+          <div key={i} style={{ marginTop: 6, fontSize: 14, color: m.type === "ERROR" ? "#dc2626" : undefined }}>{m.message}</div>
+        ))}
+      </div>
+
+      {!failed && flow.authenticators.length > 1 && (
+        <div style={{ display: "flex", gap: 8, flexWrap: "wrap", marginBottom: 12 }}>
+          {flow.authenticators.map((a) => (
+            <Btn key={a.authenticatorId} primary={a.authenticatorId === chosenId} onClick={() => setChosenId(a.authenticatorId)} disabled={busy}>
+              {a.name}
+            </Btn>
+          ))}
+        </div>
+      )}
+
+      <div style={{ display: "flex", gap: 8, alignItems: "center", flexWrap: "wrap" }}>
+        {!failed && chosen?.promptType === "USER_PROMPT" && chosen.params.map((p) => (
+          <input
+            key={p.param}
+            type={p.confidential ? "password" : "text"}
+            placeholder={`Enter ${p.displayName}`}
+            value={values[p.param] || ""}
+            onChange={(e) => setValues({ ...values, [p.param]: e.target.value })}
+            style={{ padding: "8px 10px", borderRadius: 8, border: "1px solid #cbd5e1", minWidth: 200 }}
+            disabled={busy}
+          />
+        ))}
+        {!failed && chosen && (
+          <Btn onClick={() => onSubmit(chosen.authenticatorId, chosen.promptType === "USER_PROMPT" ? values : {})} primary={false} disabled={busy || missing}>
+            {busy ? <Loader2 size={16} /> : <ShieldCheck size={16} />}
+            {busy ? "Verifying..." : chosen.promptType === "USER_PROMPT" ? "Verify" : `Continue with ${chosen.name}`}
+          </Btn>
+        )}
+        <Btn onClick={onCancel}>
+          {failed ? "Close" : "Cancel"}
+        </Btn>
+      </div>
+      {error && <div style={{ color: "#dc2626", marginTop: 8, fontSize: 14 }}>{error}</div>}
+    </>
+  );
+}
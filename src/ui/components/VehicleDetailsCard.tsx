@@ -0,0 +1,94 @@
+/**
+ * VehicleDetailsCard - selected vehicle facts, active policy summary and actions
+ */
+
+import React from "react";
+import { Loader2, FileText } from "lucide-react";
+import { Vehicle } from "../../api";
+import { isRenewalDue } from "../../renewal";
+import { formatMoney } from "../../money";
+import { Btn, CardBox } from "./Primitives";
+
+interface VehicleDetailsCardProps {
+  vehicle: Vehicle;
+  policyOpen: boolean;
+  policyLoading: boolean;
+  onViewPolicy: () => void;
+  quoteLoading: boolean;
+  onGetQuote: () => void;
+  locale: string;
+}
+
+export function VehicleDetailsCard({ vehicle, policyOpen, policyLoading, onViewPolicy, quoteLoading, onGetQuote, locale }: VehicleDetailsCardProps) {
+  return (
+    <CardBox>
+      <h3 style={{ fontSize: 16, fontWeight: 600, marginBottom: 12 }}>
+        {vehicle.make} {vehicle.model} - Details
+      </h3>
+      <div style={{ display: "grid", gap: 8, marginBottom: 16, fontSize: 14 }}>
+        <div style={{ display: "flex", justifyContent: "space-between", padding: "8px 0", borderBottom: "1px solid #e2e8f0" }}>
+          <span style={{ color: "#64748b" }}>Registration:</span>
+          <span>{vehicle.registrationNumber}</span>
+        </div>
+        <div style={{ display: "flex", justifyContent: "space-between", padding: "8px 0", borderBottom: "1px solid #e2e8f0" }}>
+          <span style={{ color: "#64748b" }}>Type:</span>
+          <span>{vehicle.type}</span>
+        </div>
+        <div style={{ display: "flex", justifyContent: "space-between", padding: "8px 0", borderBottom: "1px solid #e2e8f0" }}>
+          <span style={{ color: "#64748b" }}>Year:</span>
+          <span>{vehicle.manufactureYear}</span>
+        </div>
+        <div style={{ display: "flex", justifyContent: "space-between", padding: "8px 0", borderBottom: "1px solid #e2e8f0" }}>
+          <span style={{ color: "#64748b" }}>Estimated Value:</span>
+          <span>{formatMoney(vehicle.estimatedValue, vehicle.currency, locale)}</span>
+        </div>
+        <div style={{ display: "flex", justifyContent: "space-between", padding: "8px 0" }}>
+          <span style={{ color: "#64748b" }}>Status:</span>
+          <span style={{ fontWeight: 600, color: vehicle.insuranceStatus.isInsured ? "#16a34a" : "#dc2626" }}>
+            {vehicle.insuranceStatus.isInsured ? "✓ Insured" : "Not insured"}
+          </span>
+        </div>
+      </div>
+
+      {/* Show policy details if insured */}
+      {vehicle.insuranceStatus.isInsured && vehicle.insuranceStatus.policyId && (
+        <div style={{ padding: 12, marginBottom: 16, background: "#f0fdf4", borderRadius: 8, border: "1px solid #dcfce7" }}>
+          <div style={{ fontSize: 12, fontWeight: 600, color: "#166534", marginBottom: 8 }}>Active Policy</div>
+          <div style={{ display: "grid", gap: 6, fontSize: 12, color: "#166534" }}>
+            <div style={{ display: "flex", justifyContent: "space-between" }}>
+              <span>Policy ID:</span>
+              <span style={{ fontFamily: "ui-monospace" }}>{vehicle.insuranceStatus.policyId}</span>
+            </div>
+            <div style={{ display: "flex", justifyContent: "space-between" }}>
+              <span>Valid Until:</span>
+              <span>{vehicle.insuranceStatus.insuredUntil}</span>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {vehicle.actionsAvailable.canViewPolicy && !policyOpen && (
+        <Btn onClick={onViewPolicy} disabled={policyLoading} style={{ marginBottom: 12 }}>
+          {policyLoading ? <Loader2 size={16} /> : <FileText size={16} />}
+          {policyLoading ? "Loading policy..." : "View Policy"}
+        </Btn>
+      )}
+
+      {/* Show Get Quote button only if not insured and action is available */}
+      {!vehicle.insuranceStatus.isInsured && vehicle.actionsAvailable.canGetQuote && (
+        <Btn primary onClick={onGetQuote} disabled={quoteLoading}>
+          {quoteLoading ? <Loader2 size={16} /> : <FileText size={16} />}
+          {quoteLoading ? "Getting quote..." : "Get Quote"}
+        </Btn>
+      )}
+
+      {/* Insured vehicles inside the renewal window can request a renewal quote */}
+      {isRenewalDue(vehicle) && (
+        <Btn primary onClick={onGetQuote} disabled={quoteLoading}>
+          {quoteLoading ? <Loader2 size={16} /> : <FileText size={16} />}
+          {quoteLoading ? "Getting quote..." : "Get Renewal Quote"}
+        </Btn>
+      )}
+    </CardBox>
+  );
+}
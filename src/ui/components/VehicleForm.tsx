@@ -0,0 +1,117 @@
+/**
+ * VehicleForm - add a new vehicle or edit an existing one
+ */
+
+import React from "react";
+import { VehicleFormValues, VehicleFormErrors, VEHICLE_TYPES, CURRENCIES } from "../../vehicleForm";
+import { Btn, CardBox } from "./Primitives";
+
+interface VehicleFormProps {
+  editing: boolean;
+  form: VehicleFormValues;
+  errors: VehicleFormErrors;
+  onChange: (form: VehicleFormValues) => void;
+  loading: boolean;
+  onSubmit: () => void;
+  onCancel: () => void;
+}
+
+const inputStyle = (invalid: boolean): React.CSSProperties => ({
+  padding: "10px",
+  borderRadius: 8,
+  border: `1px solid ${invalid ? "#dc2626" : "#cbd5e1"}`,
+  fontSize: 14,
+  width: "100%",
+  boxSizing: "border-box"
+});
+
+function FieldError({ message }: { message?: string }) {
+  return message ? <div style={{ color: "#dc2626", fontSize: 12, marginTop: 4 }}>{message}</div> : null;
+}
+
+export function VehicleForm({ editing, form, errors, onChange, loading, onSubmit, onCancel }: VehicleFormProps) {
+  return (
+    <CardBox>
+      <h3 style={{ fontSize: 16, fontWeight: 600, marginBottom: 12 }}>{editing ? "Edit Vehicle" : "Add New Vehicle"}</h3>
+      <div style={{ display: "grid", gap: 12 }}>
+        <div>
+          <input
+            type="text"
+            placeholder="Registration Number (e.g. WP-CA-4521)"
+            value={form.registrationNumber}
+            onChange={(e) => onChange({ ...form, registrationNumber: e.target.value })}
+            style={inputStyle(!!errors.registrationNumber)}
+          />
+          <FieldError message={errors.registrationNumber} />
+        </div>
+        <div style={{ display: "grid", gap: 12, gridTemplateColumns: "1fr 1fr" }}>
+          <div>
+            <input
+              type="text"
+              placeholder="Make (e.g. Toyota)"
+              value={form.make}
+              onChange={(e) => onChange({ ...form, make: e.target.value })}
+              style={inputStyle(!!errors.make)}
+            />
+            <FieldError message={errors.make} />
+          </div>
+          <div>
+            <input
+              type="text"
+              placeholder="Model (e.g. Corolla)"
+              value={form.model}
+              onChange={(e) => onChange({ ...form, model: e.target.value })}
+              style={inputStyle(!!errors.model)}
+            />
+            <FieldError message={errors.model} />
+          </div>
+        </div>
+        <div style={{ display: "grid", gap: 12, gridTemplateColumns: "1fr 1fr" }}>
+          <select
+            value={form.vehicleType}
+            onChange={(e) => onChange({ ...form, vehicleType: e.target.value })}
+            style={inputStyle(false)}
+          >
+            {VEHICLE_TYPES.map((t) => <option key={t}>{t}</option>)}
+          </select>
+          <div>
+            <input
+              type="number"
+              placeholder="Year"
+              value={form.year}
+              onChange={(e) => onChange({ ...form, year: parseInt(e.target.value) })}
+              style={inputStyle(!!errors.year)}
+            />
+            <FieldError message={errors.year} />
+          </div>
+        </div>
+        <div style={{ display: "grid", gap: 12, gridTemplateColumns: "2fr 1fr" }}>
+          <div>
+            <input
+              type="number"
+              min={0}
+              placeholder="Estimated Value"
+              value={form.estimatedValue}
+              onChange={(e) => onChange({ ...form, estimatedValue: e.target.value })}
+              style={inputStyle(!!errors.estimatedValue)}
+            />
+            <FieldError message={errors.estimatedValue} />
+          </div>
+          <select
+            value={form.currency}
+            onChange={(e) => onChange({ ...form, currency: e.target.value })}
+            style={inputStyle(!!errors.currency)}
+          >
+            {CURRENCIES.map((c) => <option key={c}>{c}</option>)}
+          </select>
+        </div>
+        <div style={{ display: "flex", gap: 8 }}>
+          <Btn primary onClick={onSubmit} disabled={loading}>
+            {loading ? "Saving..." : editing ? "Save Changes" : "Add Vehicle"}
+          </Btn>
+          <Btn onClick={onCancel}>Cancel</Btn>
+        </div>
+      </div>
+    </CardBox>
+  );
+}
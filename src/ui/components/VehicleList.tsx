@@ -0,0 +1,227 @@
+/**
+ * VehicleList - "My Vehicles" card grid with insurance status and available actions.
+ * The checkbox on each card adds the vehicle to the fleet batch.
+ */
+
+import React from "react";
+import { motion } from "framer-motion";
+import { Loader2, Plus, Pencil, Trash2, ArrowUpDown } from "lucide-react";
+import { Vehicle, DroppedRecord } from "../../api";
+import { daysToExpiry, isRenewalDue, expiryLabel } from "../../renewal";
+import { formatMoney } from "../../money";
+import { Btn, CardBox } from "./Primitives";
+
+interface VehicleListProps {
+  signedIn: boolean;
+  vehicles: Vehicle[] | null;
+  droppedVehicles: DroppedRecord[];
+  selectedVehicle: Vehicle | null;
+  onToggleVehicle: (vehicle: Vehicle) => void;
+  showAddVehicle: boolean;
+  onToggleAddVehicle: () => void;
+  showTransfer: boolean;
+  onToggleTransfer: () => void;
+  onEditVehicle: (vehicle: Vehicle) => void;
+  onDeleteVehicle: (vehicle: Vehicle) => void;
+  deletingVehicleId: string | null;
+  /** Vehicles in the fleet batch */
+  fleetSelectedIds: string[];
+  onToggleFleet: (vehicle: Vehicle) => void;
+  /** Fleet selection is frozen while its quotes or purchase run */
+  fleetLocked: boolean;
+  /** A search or filter is narrowing the list */
+  filtered: boolean;
+  /** Re-fetching after a query change; the current page stays visible */
+  refreshing: boolean;
+  locale: string;
+  /** Search / filter bar, shown above the grid */
+  controls?: React.ReactNode;
+  /** Page navigator, shown below the grid */
+  pager?: React.ReactNode;
+}
+
+const iconButton: React.CSSProperties = {
+  border: "1px solid #e2e8f0",
+  background: "white",
+  borderRadius: 6,
+  padding: 4,
+  cursor: "pointer",
+  display: "inline-flex",
+  color: "#475569"
+};
+
+export function VehicleList({
+  signedIn,
+  vehicles,
+  droppedVehicles,
+  selectedVehicle,
+  onToggleVehicle,
+  showAddVehicle,
+  onToggleAddVehicle,
+  showTransfer,
+  onToggleTransfer,
+  onEditVehicle,
+  onDeleteVehicle,
+  deletingVehicleId,
+  fleetSelectedIds,
+  onToggleFleet,
+  fleetLocked,
+  filtered,
+  refreshing,
+  locale,
+  controls,
+  pager,
+}: VehicleListProps) {
+  return (
+    <CardBox>
+      <div style={{ display: "flex", alignItems: "center", justifyContent: "space-between", marginBottom: 16 }}>
+        <h2 style={{ fontSize: 18, fontWeight: 600 }}>My Vehicles</h2>
+        <div style={{ display: "flex", gap: 8 }}>
+          {signedIn && (
+            <Btn onClick={onToggleTransfer} primary={showTransfer}>
+              <ArrowUpDown size={16} /> Import / Export
+            </Btn>
+          )}
+          <Btn onClick={onToggleAddVehicle} primary={showAddVehicle}>
+            <Plus size={16} /> Add Vehicle
+          </Btn>
+        </div>
+      </div>
+
+      {!signedIn ? (
+        <div style={{ fontSize: 14, color: "#475569" }}>
+          <p style={{ marginBottom: 8 }}>Sign in to view and manage your vehicles.</p>
+        </div>
+      ) : (
+        <>
+        {controls}
+        {vehicles === null ? (
+        <div style={{ display: "flex", alignItems: "center", gap: 8, color: "#475569", fontSize: 14 }}>
+          <Loader2 size={16} /> Loading vehicles…
+        </div>
+      ) : (
+        <>
+        {droppedVehicles.length > 0 && (
+          <div style={{ padding: 12, marginBottom: 12, borderRadius: 8, background: "#fef3c7", border: "1px solid #fcd34d", color: "#92400e", fontSize: 12 }}>
+            {droppedVehicles.length} vehicle record(s) could not be displayed:
+            {droppedVehicles.map((d) => (
+              <div key={d.index}>• {d.label}: invalid {d.fields.join(", ") || "record"}</div>
+            ))}
+          </div>
+        )}
+        <div style={{ display: "grid", gap: 12, gridTemplateColumns: "repeat(auto-fill, minmax(300px, 1fr))", opacity: refreshing ? 0.6 : 1 }}>
+          {vehicles.map((vehicle) => (
+            <motion.div
+              key={vehicle.vehicleId}
+              onClick={() => onToggleVehicle(vehicle)}
+              style={{
+                borderRadius: 12,
+                border: selectedVehicle?.vehicleId === vehicle.vehicleId ? "2px solid #0f172a" : "1px solid #e2e8f0",
+                padding: 16,
+                cursor: "pointer",
+                background: selectedVehicle?.vehicleId === vehicle.vehicleId ? "#f8fafc" : "white",
+                transition: "all 0.2s"
+              }}
+            >
+              <div style={{ display: "flex", justifyContent: "space-between", alignItems: "start", marginBottom: 12 }}>
+                <div style={{ display: "flex", gap: 10, alignItems: "start" }}>
+                  <input
+                    type="checkbox"
+                    title="Add to fleet"
+                    checked={fleetSelectedIds.includes(vehicle.vehicleId)}
+                    disabled={fleetLocked}
+                    onClick={(e) => e.stopPropagation()}
+                    onChange={() => onToggleFleet(vehicle)}
+                    style={{ marginTop: 4, cursor: "pointer" }}
+                  />
+                  <div>
+                    <div style={{ fontSize: 16, fontWeight: 600 }}>{vehicle.make} {vehicle.model}</div>
+                    <div style={{ fontSize: 12, color: "#64748b", marginTop: 4 }}>
+                      {vehicle.type} • {vehicle.manufactureYear}
+                    </div>
+                  </div>
+                </div>
+                <div style={{ display: "flex", alignItems: "center", gap: 6 }}>
+                  <div style={{
+                    padding: "4px 12px",
+                    borderRadius: 8,
+                    background: vehicle.insuranceStatus.isInsured ? "#dcfce7" : "#fef3c7",
+                    color: vehicle.insuranceStatus.isInsured ? "#166534" : "#92400e",
+                    fontSize: 11,
+                    fontWeight: 600,
+                    whiteSpace: "nowrap"
+                  }}>
+                    {vehicle.insuranceStatus.isInsured ? "✓ Insured" : "Not insured"}
+                  </div>
+                  <button
+                    title="Edit vehicle"
+                    style={iconButton}
+                    onClick={(e) => { e.stopPropagation(); onEditVehicle(vehicle); }}
+                  >
+                    <Pencil size={14} />
+                  </button>
+                  <button
+                    title="Remove vehicle"
+                    style={iconButton}
+                    disabled={deletingVehicleId === vehicle.vehicleId}
+                    onClick={(e) => { e.stopPropagation(); onDeleteVehicle(vehicle); }}
+                  >
+                    {deletingVehicleId === vehicle.vehicleId ? <Loader2 size={14} /> : <Trash2 size={14} />}
+                  </button>
+                </div>
+              </div>
+              <div style={{ fontSize: 12, color: "#64748b", marginBottom: 12, paddingBottom: 12, borderBottom: "1px solid #e2e8f0" }}>
+                <div>Reg: {vehicle.registrationNumber}</div>
+                <div>Value: {formatMoney(vehicle.estimatedValue, vehicle.currency, locale)}</div>
+              </div>
+              {vehicle.insuranceStatus.isInsured && (
+                <div style={{ fontSize: 11, color: "#64748b", marginBottom: 8 }}>
+                  Policy: {vehicle.insuranceStatus.policyId}
+                  <br />
+                  Until: {vehicle.insuranceStatus.insuredUntil}
+                  {daysToExpiry(vehicle) !== null && (
+                    <span style={{ marginLeft: 6, fontWeight: 600, color: isRenewalDue(vehicle) ? "#b45309" : "#64748b" }}>
+                      ({expiryLabel(daysToExpiry(vehicle)!)})
+                    </span>
+                  )}
+                </div>
+              )}
+              <div style={{ display: "flex", gap: 8, flexWrap: "wrap" }}>
+                {vehicle.insuranceStatus.isInsured ? (
+                  <span style={{ fontSize: 11, padding: "4px 8px", background: "#f3e8ff", color: "#7e22ce", borderRadius: 6 }}>
+                    View Policy
+                  </span>
+                ) : (
+                  vehicle.actionsAvailable.canGetQuote && (
+                    <span style={{ fontSize: 11, padding: "4px 8px", background: "#dbeafe", color: "#1e40af", borderRadius: 6 }}>
+                      Get Quote Available
+                    </span>
+                  )
+                )}
+                {vehicle.actionsAvailable.canBuyInsurance && (
+                  <span style={{ fontSize: 11, padding: "4px 8px", background: "#dcfce7", color: "#166534", borderRadius: 6 }}>
+                    Buy Insurance
+                  </span>
+                )}
+                {isRenewalDue(vehicle) && (
+                  <span style={{ fontSize: 11, padding: "4px 8px", background: "#ffedd5", color: "#9a3412", borderRadius: 6 }}>
+                    Renewal Due
+                  </span>
+                )}
+              </div>
+            </motion.div>
+          ))}
+          {vehicles.length === 0 && (
+            <div style={{ fontSize: 14, color: "#64748b", textAlign: "center", padding: "20px", gridColumn: "1/-1" }}>
+              {filtered ? "No vehicles match your search." : "No vehicles added yet. Click \"Add Vehicle\" to get started."}
+            </div>
+          )}
+        </div>
+        {pager}
+        </>
+        )}
+        </>
+      )}
+    </CardBox>
+  );
+}
@@ -0,0 +1,101 @@
+/**
+ * VehicleListControls - search, filter and sort bar and the page navigator
+ * for the My Vehicles list
+ */
+
+import React from "react";
+import { ArrowDown, ArrowUp, ChevronLeft, ChevronRight, Search } from "lucide-react";
+import { VehicleQuery, VEHICLE_SORTS, VEHICLE_TYPE_FILTERS, VehicleSortField, isFiltered } from "../../vehicleQuery";
+import { Btn } from "./Primitives";
+
+const fieldStyle: React.CSSProperties = {
+  padding: "8px 10px",
+  borderRadius: 8,
+  border: "1px solid #cbd5e1",
+  fontSize: 13,
+  background: "white"
+};
+
+interface VehicleFiltersProps {
+  query: VehicleQuery;
+  onChange: (patch: Partial<VehicleQuery>) => void;
+  onReset: () => void;
+}
+
+export function VehicleFilters({ query, onChange, onReset }: VehicleFiltersProps) {
+  return (
+    <div style={{ display: "flex", flexWrap: "wrap", gap: 8, alignItems: "center", marginBottom: 16 }}>
+      <div style={{ position: "relative", flex: "1 1 200px" }}>
+        <Search size={14} style={{ position: "absolute", left: 10, top: "50%", transform: "translateY(-50%)", color: "#94a3b8" }} />
+        <input
+          type="search"
+          placeholder="Search registration"
+          value={query.search}
+          onChange={(e) => onChange({ search: e.target.value })}
+          style={{ ...fieldStyle, width: "100%", paddingLeft: 30, boxSizing: "border-box" }}
+        />
+      </div>
+      <select value={query.type} onChange={(e) => onChange({ type: e.target.value })} style={fieldStyle}>
+        <option value="">All types</option>
+        {VEHICLE_TYPE_FILTERS.map((t) => <option key={t} value={t}>{t}</option>)}
+      </select>
+      <select value={query.insured} onChange={(e) => onChange({ insured: e.target.value as VehicleQuery["insured"] })} style={fieldStyle}>
+        <option value="all">Insured & uninsured</option>
+        <option value="insured">Insured</option>
+        <option value="uninsured">Not insured</option>
+      </select>
+      <input
+        type="text"
+        placeholder="Make"
+        value={query.make}
+        onChange={(e) => onChange({ make: e.target.value })}
+        style={{ ...fieldStyle, width: 110 }}
+      />
+      <select value={query.sortBy} onChange={(e) => onChange({ sortBy: e.target.value as VehicleSortField | "" })} style={fieldStyle}>
+        <option value="">Sort: default</option>
+        {VEHICLE_SORTS.map((s) => <option key={s.value} value={s.value}>Sort: {s.label}</option>)}
+      </select>
+      {query.sortBy && (
+        <button
+          title={query.sortOrder === "asc" ? "Ascending" : "Descending"}
+          onClick={() => onChange({ sortOrder: query.sortOrder === "asc" ? "desc" : "asc" })}
+          style={{ ...fieldStyle, display: "inline-flex", cursor: "pointer" }}
+        >
+          {query.sortOrder === "asc" ? <ArrowUp size={14} /> : <ArrowDown size={14} />}
+        </button>
+      )}
+      {isFiltered(query) && (
+        <button onClick={onReset} style={{ border: "none", background: "none", color: "#2563eb", fontSize: 13, cursor: "pointer" }}>
+          Clear
+        </button>
+      )}
+    </div>
+  );
+}
+
+interface VehicleListPagerProps {
+  offset: number;
+  limit: number;
+  total: number;
+  loading: boolean;
+  onPage: (offset: number) => void;
+}
+
+export function VehicleListPager({ offset, limit, total, loading, onPage }: VehicleListPagerProps) {
+  if (total <= limit && offset === 0) return null;
+  const last = Math.min(offset + limit, total);
+
+  return (
+    <div style={{ display: "flex", alignItems: "center", justifyContent: "space-between", marginTop: 16, fontSize: 13, color: "#475569" }}>
+      <span>Showing {total ? offset + 1 : 0}–{last} of {total}</span>
+      <div style={{ display: "flex", gap: 8 }}>
+        <Btn onClick={() => onPage(Math.max(0, offset - limit))} disabled={loading || offset === 0}>
+          <ChevronLeft size={16} /> Previous
+        </Btn>
+        <Btn onClick={() => onPage(offset + limit)} disabled={loading || last >= total}>
+          Next <ChevronRight size={16} />
+        </Btn>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,143 @@
+/**
+ * VehicleTransferPanel - import vehicles from a CSV / JSON file with a
+ * per-row review and results report, and export vehicles with their policies
+ */
+
+import React from "react";
+import { Download, Loader2, Upload } from "lucide-react";
+import { ImportRow, ImportResult } from "../../vehicleTransfer";
+import { formatMoney } from "../../money";
+import { Btn, CardBox } from "./Primitives";
+
+interface VehicleTransferPanelProps {
+  filename: string | null;
+  rows: ImportRow[] | null;
+  results: ImportResult[] | null;
+  fileError: string | null;
+  reading: boolean;
+  importing: boolean;
+  exporting: "csv" | "json" | null;
+  onFile: (file: File) => void;
+  onImport: () => void;
+  onReset: () => void;
+  onExport: (format: "csv" | "json") => void;
+  onClose: () => void;
+  locale: string;
+}
+
+const cell: React.CSSProperties = { padding: "6px 8px", borderBottom: "1px solid #e2e8f0", textAlign: "left", verticalAlign: "top" };
+
+export function VehicleTransferPanel({ filename, rows, results, fileError, reading, importing, exporting, onFile, onImport, onReset, onExport, onClose, locale }: VehicleTransferPanelProps) {
+  const validCount = rows ? rows.filter((r) => !Object.keys(r.errors).length).length : 0;
+  const resultFor = (row: number) => results?.find((r) => r.row === row);
+  const done = !!results && !importing;
+
+  return (
+    <CardBox>
+      <div style={{ display: "flex", alignItems: "center", justifyContent: "space-between", marginBottom: 12 }}>
+        <h3 style={{ fontSize: 16, fontWeight: 600 }}>Import / Export</h3>
+        <Btn onClick={onClose} disabled={importing} style={{ padding: "6px 10px", fontSize: 12 }}>Close</Btn>
+      </div>
+
+      <div style={{ display: "flex", gap: 8, flexWrap: "wrap", marginBottom: 16 }}>
+        <Btn onClick={() => onExport("csv")} disabled={!!exporting}>
+          {exporting === "csv" ? <Loader2 size={16} /> : <Download size={16} />} Export CSV
+        </Btn>
+        <Btn onClick={() => onExport("json")} disabled={!!exporting}>
+          {exporting === "json" ? <Loader2 size={16} /> : <Download size={16} />} Export JSON
+        </Btn>
+      </div>
+      <p style={{ fontSize: 12, color: "#64748b", marginBottom: 16 }}>
+        Exports every vehicle matching the current filters, with its policy history.
+      </p>
+
+      <label style={{ display: "inline-flex", alignItems: "center", gap: 8, fontSize: 14, cursor: importing ? "default" : "pointer" }}>
+        <Upload size={16} />
+        <span>{filename ? `File: ${filename}` : "Choose a CSV or JSON file to import"}</span>
+        <input
+          type="file"
+          accept=".csv,.json,text/csv,application/json"
+          disabled={importing || reading}
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) onFile(file);
+            e.target.value = "";
+          }}
+          style={{ display: "none" }}
+        />
+      </label>
+      <p style={{ fontSize: 12, color: "#64748b", marginTop: 4 }}>
+        CSV columns: registrationNumber, vehicleType, year, make, model, estimatedValue, currency
+      </p>
+
+      {reading && (
+        <div style={{ display: "flex", alignItems: "center", gap: 8, marginTop: 12, fontSize: 14, color: "#475569" }}>
+          <Loader2 size={16} /> Checking the file…
+        </div>
+      )}
+      {fileError && <div style={{ color: "#dc2626", marginTop: 12, fontSize: 14 }}>{fileError}</div>}
+
+      {rows && (
+        <>
+          <div style={{ overflowX: "auto", marginTop: 12 }}>
+            <table style={{ width: "100%", borderCollapse: "collapse", fontSize: 12 }}>
+              <thead>
+                <tr style={{ color: "#64748b" }}>
+                  <th style={cell}>Row</th>
+                  <th style={cell}>Registration</th>
+                  <th style={cell}>Vehicle</th>
+                  <th style={cell}>Value</th>
+                  <th style={cell}>Result</th>
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map((r) => {
+                  const problems = Object.values(r.errors);
+                  const result = resultFor(r.row);
+                  return (
+                    <tr key={r.row}>
+                      <td style={cell}>{r.row}</td>
+                      <td style={cell}>{r.values.registrationNumber || "—"}</td>
+                      <td style={cell}>{[r.values.make, r.values.model].filter(Boolean).join(" ") || "—"} ({r.values.vehicleType}, {Number.isFinite(r.values.year) ? r.values.year : "?"})</td>
+                      <td style={cell}>{r.values.estimatedValue && Number.isFinite(Number(r.values.estimatedValue)) ? formatMoney(Number(r.values.estimatedValue), r.values.currency, locale) : "—"}</td>
+                      <td style={cell}>
+                        {result?.status === "added" ? (
+                          <span style={{ color: "#166534" }}>✓ Added</span>
+                        ) : result?.status === "failed" ? (
+                          <span style={{ color: "#dc2626" }}>{result.message}</span>
+                        ) : problems.length ? (
+                          <span style={{ color: "#dc2626" }}>{problems.join("; ")}</span>
+                        ) : (
+                          <span style={{ color: "#475569" }}>{importing ? "Waiting…" : "Ready"}</span>
+                        )}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+
+          {done ? (
+            <div style={{ display: "flex", alignItems: "center", justifyContent: "space-between", gap: 12, marginTop: 12, fontSize: 14 }}>
+              <span>
+                {results!.filter((r) => r.status === "added").length} added,{" "}
+                {results!.filter((r) => r.status === "failed").length} failed,{" "}
+                {results!.filter((r) => r.status === "invalid").length} skipped as invalid.
+              </span>
+              <Btn onClick={onReset}>Done</Btn>
+            </div>
+          ) : (
+            <div style={{ display: "flex", gap: 8, marginTop: 12 }}>
+              <Btn primary onClick={onImport} disabled={importing || validCount === 0}>
+                {importing ? <Loader2 size={16} /> : <Upload size={16} />}
+                {importing ? "Importing..." : `Import ${validCount} of ${rows.length} vehicle${rows.length === 1 ? "" : "s"}`}
+              </Btn>
+              <Btn onClick={onReset} disabled={importing}>Cancel</Btn>
+            </div>
+          )}
+        </>
+      )}
+    </CardBox>
+  );
+}
@@ -0,0 +1,251 @@
+/**
+ * Response Validation
+ *
+ * Runtime checks for the payloads behind the interfaces in ./api.
+ * Optional parts (insuranceStatus, actionsAvailable) are normalised to safe
+ * defaults; records missing required fields are rejected with a SchemaError
+ * naming every bad field. Vehicle lists drop bad records individually.
+ */
+
+import type { Vehicle, VehicleDetail, Quote, QuoteOption, InsurancePolicy } from "./api";
+import { SchemaError } from "./errors";
+
+export interface DroppedRecord {
+  /** Position in the response list */
+  index: number;
+  /** vehicleId or registration number when the record had one */
+  label: string;
+  fields: string[];
+}
+
+export interface VehicleListResult {
+  vehicles: Vehicle[];
+  dropped: DroppedRecord[];
+  /** Matching vehicles across all pages */
+  total: number;
+  /** Position of this page's first vehicle */
+  offset: number;
+}
+
+/**
+ * Field readers: record the field name in `bad` and return a placeholder when invalid
+ */
+
+function str(obj: any, key: string, bad: string[]): string {
+  const v = obj?.[key];
+  if (typeof v === "string" && v.trim()) return v;
+  if (typeof v === "number") return String(v);
+  bad.push(key);
+  return "";
+}
+
+function num(obj: any, key: string, bad: string[]): number {
+  const v = obj?.[key];
+  const n = typeof v === "string" && v.trim() ? Number(v) : v;
+  if (typeof n === "number" && isFinite(n)) return n;
+  bad.push(key);
+  return 0;
+}
+
+function optStr(obj: any, key: string): string | undefined {
+  const v = obj?.[key];
+  return typeof v === "string" && v ? v : undefined;
+}
+
+function bool(v: any, fallback: boolean): boolean {
+  if (typeof v === "boolean") return v;
+  if (v === "true") return true;
+  if (v === "false") return false;
+  return fallback;
+}
+
+function ensureObject(raw: any, kind: string) {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) {
+    throw new SchemaError(`${kind} is not an object`, []);
+  }
+}
+
+export function parseVehicle(raw: any): Vehicle {
+  ensureObject(raw, "Vehicle");
+  const bad: string[] = [];
+
+  const status = raw.insuranceStatus && typeof raw.insuranceStatus === "object" ? raw.insuranceStatus : {};
+  const isInsured = bool(status.isInsured, false);
+  const actions = raw.actionsAvailable && typeof raw.actionsAvailable === "object" ? raw.actionsAvailable : {};
+
+  const vehicle: Vehicle = {
+    vehicleId: str(raw, "vehicleId", bad),
+    make: str(raw, "make", bad),
+    model: str(raw, "model", bad),
+    registrationNumber: str(raw, "registrationNumber", bad),
+    type: str(raw, "type", bad),
+    manufactureYear: num(raw, "manufactureYear", bad),
+    estimatedValue: num(raw, "estimatedValue", bad),
+    currency: str(raw, "currency", bad),
+    insuranceStatus: {
+      isInsured,
+      policyId: optStr(status, "policyId"),
+      insuredUntil: optStr(status, "insuredUntil"),
+    },
+    actionsAvailable: {
+      canGetQuote: bool(actions.canGetQuote, !isInsured),
+      canBuyInsurance: bool(actions.canBuyInsurance, false),
+      canViewPolicy: bool(actions.canViewPolicy, isInsured && !!status.policyId),
+    },
+  };
+
+  if (bad.length) throw new SchemaError(`Invalid vehicle: bad fields ${bad.join(", ")}`, bad);
+  return vehicle;
+}
+
+/**
+ * Accepts a bare array, { vehicles: [...] } or an APIM { list: [...] } envelope.
+ * Bad records are dropped and reported; the rest are kept. Paging comes from
+ * the envelope's pagination block; an unpaged response is one full page.
+ */
+export function parseVehicleList(data: any): VehicleListResult {
+  const list = Array.isArray(data) ? data
+    : Array.isArray(data?.vehicles) ? data.vehicles
+    : Array.isArray(data?.list) ? data.list
+    : null;
+  if (!list) throw new SchemaError("Vehicle list response has no vehicles array", ["vehicles"]);
+
+  const vehicles: Vehicle[] = [];
+  const dropped: DroppedRecord[] = [];
+  list.forEach((raw: any, index: number) => {
+    try {
+      vehicles.push(parseVehicle(raw));
+    } catch (e) {
+      const label = String(raw?.vehicleId ?? raw?.registrationNumber ?? `#${index + 1}`);
+      dropped.push({ index, label, fields: e instanceof SchemaError ? e.fields : [] });
+    }
+  });
+  const pagination = data?.pagination && typeof data.pagination === "object" ? data.pagination : {};
+  const total = Number(pagination.total ?? data?.total);
+  const offset = Number(pagination.offset ?? data?.offset);
+  return {
+    vehicles,
+    dropped,
+    total: Number.isFinite(total) && total >= list.length ? total : list.length,
+    offset: Number.isFinite(offset) && offset >= 0 ? offset : 0,
+  };
+}
+
+function parseQuoteOption(raw: any, index: number, bad: string[]): QuoteOption {
+  const prefix = `options[${index}].`;
+  const optBad: string[] = [];
+  const breakdown = raw?.breakdown && typeof raw.breakdown === "object" ? raw.breakdown : {};
+
+  const option: QuoteOption = {
+    id: str(raw, "id", optBad),
+    tier: str(raw, "tier", optBad),
+    name: optStr(raw, "name") || String(raw?.tier ?? ""),
+    deductible: num(raw, "deductible", optBad),
+    addOns: (Array.isArray(raw?.addOns) ? raw.addOns : []).map((a: any) => ({
+      code: str(a, "code", optBad),
+      name: optStr(a, "name") || String(a?.code ?? ""),
+      premium: num(a, "premium", optBad),
+    })),
+    breakdown: {
+      basePremium: num(breakdown, "basePremium", optBad),
+      addOnPremium: Number(breakdown.addOnPremium) || 0,
+      tax: Number(breakdown.tax) || 0,
+    },
+    premium: num(raw, "premium", optBad),
+  };
+
+  bad.push(...optBad.map((f) => prefix + f));
+  return option;
+}
+
+/**
+ * Quotes without `options` (single-coverage backends) get one option built
+ * from premium / coverage, with the quote id as the option id.
+ */
+export function parseQuote(raw: any): Quote {
+  ensureObject(raw, "Quote");
+  const bad: string[] = [];
+
+  const quote: Quote = {
+    id: str(raw, "id", bad),
+    vehicleId: str(raw, "vehicleId", bad),
+    premium: num(raw, "premium", bad),
+    coverage: str(raw, "coverage", bad),
+    validUntil: str(raw, "validUntil", bad),
+    renewalOf: optStr(raw, "renewalOf"),
+    options: [],
+  };
+
+  if (Array.isArray(raw.options) && raw.options.length) {
+    quote.options = raw.options.map((o: any, i: number) => parseQuoteOption(o, i, bad));
+  } else {
+    quote.options = [{
+      id: quote.id,
+      tier: quote.coverage,
+      name: quote.coverage,
+      deductible: 0,
+      addOns: [],
+      breakdown: { basePremium: quote.premium, addOnPremium: 0, tax: 0 },
+      premium: quote.premium,
+    }];
+  }
+
+  if (bad.length) throw new SchemaError(`Invalid quote: bad fields ${bad.join(", ")}`, bad);
+  return quote;
+}
+
+const POLICY_STATUSES: InsurancePolicy["status"][] = ["Active", "Expired", "PendingRenewal"];
+
+export function parsePolicy(raw: any): InsurancePolicy {
+  ensureObject(raw, "Policy");
+  const bad: string[] = [];
+
+  const policy: InsurancePolicy = {
+    id: str(raw, "id", bad),
+    vehicleId: str(raw, "vehicleId", bad),
+    policyNumber: str(raw, "policyNumber", bad),
+    startDate: str(raw, "startDate", bad),
+    endDate: str(raw, "endDate", bad),
+    premium: num(raw, "premium", bad),
+    status: "Active",
+    coverage: optStr(raw, "coverage"),
+  };
+
+  // Backends differ in casing and separators ("ACTIVE", "pending_renewal")
+  const rawStatus = String(raw.status ?? "").toLowerCase().replace(/[_\s-]/g, "");
+  const status = POLICY_STATUSES.find((s) => s.toLowerCase() === rawStatus);
+  if (status) policy.status = status;
+  else bad.push("status");
+
+  if (bad.length) throw new SchemaError(`Invalid policy: bad fields ${bad.join(", ")}`, bad);
+  return policy;
+}
+
+/**
+ * Vehicle detail: the vehicle itself (bare or under `vehicle`) plus its
+ * policies from `policies` / `policyHistory` / `policy`. Malformed history
+ * entries are skipped so one bad record does not hide the rest.
+ */
+export function parseVehicleDetail(raw: any): VehicleDetail {
+  ensureObject(raw, "Vehicle detail");
+  const vehicle = parseVehicle(raw.vehicle ?? raw);
+
+  const rawPolicies: any[] = Array.isArray(raw.policies) ? raw.policies
+    : Array.isArray(raw.policyHistory) ? raw.policyHistory
+    : [];
+  if (raw.policy && !rawPolicies.some((p) => p?.id === raw.policy.id)) rawPolicies.push(raw.policy);
+
+  const policyHistory: InsurancePolicy[] = [];
+  rawPolicies.forEach((p) => {
+    try { policyHistory.push(parsePolicy(p)); } catch {}
+  });
+  policyHistory.sort((a, b) => b.startDate.localeCompare(a.startDate));
+
+  const policyId = vehicle.insuranceStatus.policyId;
+  const policy =
+    policyHistory.find((p) => policyId && (p.id === policyId || p.policyNumber === policyId)) ||
+    policyHistory.find((p) => p.status === "Active") ||
+    null;
+
+  return { vehicle, policy, policyHistory };
+}
@@ -0,0 +1,143 @@
+/**
+ * Vehicle Form
+ *
+ * Field rules for the add / edit vehicle form, checked before anything is
+ * sent to the vehicle API.
+ *
+ * Sri Lankan registration numbers come in two families:
+ * - current: optional province code + 2 or 3 letters + 4 digits,
+ *   e.g. "WP-CA-4521", "WP CAB 1234", "CAB-1234"
+ * - older numeric: 1 to 3 digits + 4 digits, e.g. "19-1234", "250-5678"
+ * They are normalised to dash-separated upper case ("WP-CA-4521").
+ */
+
+import type { Vehicle, VehicleInput } from "./api";
+
+export interface VehicleFormValues {
+  registrationNumber: string;
+  vehicleType: string;
+  year: number;
+  make: string;
+  model: string;
+  /** Kept as typed so a half-entered number is not lost */
+  estimatedValue: string;
+  currency: string;
+}
+
+export type VehicleFormErrors = Partial<Record<keyof VehicleFormValues, string>>;
+
+export const VEHICLE_TYPES = ["Sedan", "SUV", "Truck", "Motorcycle", "Other"];
+export const CURRENCIES = ["LKR", "USD"];
+
+const PROVINCES = ["WP", "CP", "SP", "NP", "EP", "NW", "NC", "UP", "SG"];
+const CURRENT_FORMAT = new RegExp(`^(?:(${PROVINCES.join("|")})[-\\s]*)?([A-Z]{2,3})[-\\s]*(\\d{4})$`);
+const NUMERIC_FORMAT = /^(\d{1,3})[-\s]*(\d{4})$/;
+const FIRST_YEAR = 1900;
+
+export function emptyVehicleForm(): VehicleFormValues {
+  return { registrationNumber: "", vehicleType: "Sedan", year: new Date().getFullYear(), make: "", model: "", estimatedValue: "", currency: "LKR" };
+}
+
+/**
+ * Form body type for a type from the form or from the API (CAR, TRUCK, ...)
+ */
+export function formVehicleType(type: string): string {
+  return VEHICLE_TYPES.find((t) => t.toUpperCase() === type.toUpperCase())
+    || (type === "CAR" ? "Sedan" : type === "MOTORCYCLE" ? "Motorcycle" : type === "TRUCK" ? "Truck" : "Other");
+}
+
+/**
+ * Form values for editing an existing vehicle
+ */
+export function vehicleFormFrom(vehicle: Vehicle): VehicleFormValues {
+  return {
+    registrationNumber: vehicle.registrationNumber,
+    vehicleType: formVehicleType(vehicle.type),
+    year: vehicle.manufactureYear,
+    make: vehicle.make,
+    model: vehicle.model,
+    estimatedValue: vehicle.estimatedValue ? String(vehicle.estimatedValue) : "",
+    currency: vehicle.currency || "LKR",
+  };
+}
+
+/**
+ * Canonical form of a registration number, or null when it is not a valid Sri Lankan one
+ */
+export function normalizeRegistration(input: string): string | null {
+  const value = input.trim().toUpperCase();
+  const current = CURRENT_FORMAT.exec(value);
+  if (current) {
+    const [, province, letters, digits] = current;
+    return [province, letters, digits].filter(Boolean).join("-");
+  }
+  const numeric = NUMERIC_FORMAT.exec(value);
+  return numeric ? `${numeric[1]}-${numeric[2]}` : null;
+}
+
+/**
+ * Whether two registrations are the same vehicle. The province code is
+ * optional on plates, so "CA-4521" matches "WP-CA-4521"; when both carry
+ * one it must agree, so "WP-CA-4521" and "SP-CA-4521" are different vehicles
+ */
+function sameRegistration(a: string, b: string): boolean {
+  const split = (registration: string) => {
+    const parts = (normalizeRegistration(registration) || registration.toUpperCase()).split("-");
+    return PROVINCES.includes(parts[0])
+      ? { province: parts[0], number: parts.slice(1).join("-") }
+      : { province: null, number: parts.join("-") };
+  };
+  const left = split(a);
+  const right = split(b);
+  if (left.number !== right.number) return false;
+  return !left.province || !right.province || left.province === right.province;
+}
+
+/**
+ * Check the form against the field rules and the vehicles already on the account
+ * @param editingId - Vehicle being edited; it is not a duplicate of itself
+ */
+export function validateVehicleForm(values: VehicleFormValues, existing: Vehicle[], editingId?: string | null): VehicleFormErrors {
+  const errors: VehicleFormErrors = {};
+  const thisYear = new Date().getFullYear();
+
+  const registration = normalizeRegistration(values.registrationNumber);
+  if (!values.registrationNumber.trim()) {
+    errors.registrationNumber = "Please enter registration number";
+  } else if (!registration) {
+    errors.registrationNumber = "Use a Sri Lankan format such as WP-CA-4521, CAB-1234 or 19-1234";
+  } else {
+    const duplicate = existing.find((v) => v.vehicleId !== editingId && sameRegistration(v.registrationNumber, registration));
+    if (duplicate) errors.registrationNumber = `${duplicate.registrationNumber} is already in your vehicles`;
+  }
+
+  if (!values.make.trim()) errors.make = "Please enter the make";
+  if (!values.model.trim()) errors.model = "Please enter the model";
+
+  if (!Number.isInteger(values.year) || values.year < FIRST_YEAR || values.year > thisYear + 1) {
+    errors.year = `Year must be between ${FIRST_YEAR} and ${thisYear + 1}`;
+  }
+
+  const value = Number(values.estimatedValue);
+  if (!values.estimatedValue.trim() || !Number.isFinite(value) || value <= 0) {
+    errors.estimatedValue = "Please enter the estimated value";
+  }
+  if (!CURRENCIES.includes(values.currency)) errors.currency = "Unsupported currency";
+
+  return errors;
+}
+
+/**
+ * API payload for valid form values
+ */
+export function toVehicleInput(values: VehicleFormValues): VehicleInput {
+  return {
+    registrationNumber: normalizeRegistration(values.registrationNumber) || values.registrationNumber.trim().toUpperCase(),
+    vehicleType: values.vehicleType,
+    year: values.year,
+    make: values.make.trim(),
+    model: values.model.trim(),
+    estimatedValue: Number(values.estimatedValue),
+    currency: values.currency,
+  };
+}
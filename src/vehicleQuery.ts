@@ -0,0 +1,70 @@
+/**
+ * Vehicle Query
+ *
+ * Search, filter, sort and paging state for the My Vehicles list. Filtering
+ * and paging happen on the server: the query is sent to GET_VEHICLES_URL as
+ * APIM-style parameters (query, type, insured, make, sortBy, sortOrder,
+ * offset, limit) and the response comes back in an APIM pagination envelope
+ * ({ count, list, pagination: { offset, limit, total } }).
+ */
+
+export type VehicleSortField = "value" | "year" | "expiry";
+export type SortOrder = "asc" | "desc";
+
+export interface VehicleQuery {
+  /** Registration number, or part of one */
+  search: string;
+  /** API vehicle type (CAR, VAN, ...); empty for all */
+  type: string;
+  insured: "all" | "insured" | "uninsured";
+  make: string;
+  sortBy: VehicleSortField | "";
+  sortOrder: SortOrder;
+  offset: number;
+  limit: number;
+}
+
+export const VEHICLE_PAGE_SIZE = 12;
+
+/** Vehicle types as returned by the vehicle API */
+export const VEHICLE_TYPE_FILTERS = ["CAR", "VAN", "TRUCK", "MOTORCYCLE", "OTHER"];
+
+export const VEHICLE_SORTS: { value: VehicleSortField; label: string }[] = [
+  { value: "value", label: "Value" },
+  { value: "year", label: "Year" },
+  { value: "expiry", label: "Expiry date" },
+];
+
+export const DEFAULT_VEHICLE_QUERY: VehicleQuery = {
+  search: "",
+  type: "",
+  insured: "all",
+  make: "",
+  sortBy: "",
+  sortOrder: "asc",
+  offset: 0,
+  limit: VEHICLE_PAGE_SIZE,
+};
+
+/**
+ * Request parameters for the query; unset filters are left out
+ */
+export function vehicleQueryParams(query: VehicleQuery): Record<string, string | number | boolean | undefined> {
+  return {
+    query: query.search.trim() || undefined,
+    type: query.type || undefined,
+    insured: query.insured === "all" ? undefined : query.insured === "insured",
+    make: query.make.trim() || undefined,
+    sortBy: query.sortBy || undefined,
+    sortOrder: query.sortBy ? query.sortOrder : undefined,
+    offset: query.offset,
+    limit: query.limit,
+  };
+}
+
+/**
+ * Whether any search or filter narrows the list (for the empty-list message)
+ */
+export function isFiltered(query: VehicleQuery): boolean {
+  return !!(query.search.trim() || query.type || query.insured !== "all" || query.make.trim());
+}
@@ -0,0 +1,196 @@
+/**
+ * Vehicle Import / Export
+ *
+ * Import: a CSV (header row + one vehicle per row) or JSON file (an array,
+ * { vehicles: [...] } or a file written by the export below) is read into
+ * add-vehicle form values and checked row by row with the same rules as the
+ * Add Vehicle form, including duplicates against the account and earlier
+ * rows of the file. Valid rows are then added one by one through addVehicle.
+ *
+ * Export: vehicles with their policy history, as CSV (one row per policy,
+ * or one row for a vehicle without policies) or JSON.
+ */
+
+import type { InsurancePolicy, Vehicle } from "./api";
+import { VehicleFormValues, VehicleFormErrors, emptyVehicleForm, formVehicleType, normalizeRegistration, validateVehicleForm } from "./vehicleForm";
+
+export interface ImportRow {
+  /** Row number as the user sees it (CSV line / JSON array position, from 1) */
+  row: number;
+  values: VehicleFormValues;
+  errors: VehicleFormErrors;
+}
+
+export type ImportResult =
+  | { row: number; registrationNumber: string; status: "added"; vehicleId: string }
+  | { row: number; registrationNumber: string; status: "invalid" | "failed"; message: string };
+
+export interface VehicleExport {
+  vehicle: Vehicle;
+  policies: InsurancePolicy[];
+}
+
+// Accepted header / property names per form field, compared lower case without punctuation
+const FIELD_ALIASES: Record<keyof VehicleFormValues, string[]> = {
+  registrationNumber: ["registrationnumber", "registration", "regno", "reg"],
+  vehicleType: ["vehicletype", "type"],
+  year: ["year", "manufactureyear"],
+  make: ["make"],
+  model: ["model"],
+  estimatedValue: ["estimatedvalue", "value"],
+  currency: ["currency"],
+};
+
+const EXPORT_COLUMNS = [
+  "vehicleId", "registrationNumber", "make", "model", "type", "manufactureYear", "estimatedValue", "currency",
+  "isInsured", "insuredUntil", "policyNumber", "policyStatus", "coverage", "startDate", "endDate", "premium",
+];
+
+function fieldKey(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]/g, "");
+}
+
+/**
+ * Split CSV text into records (RFC 4180: quoted fields may hold commas,
+ * quotes and line breaks). Blank lines are skipped.
+ */
+export function parseCsv(text: string): string[][] {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const c = text[i];
+    if (quoted) {
+      if (c === "\"" && text[i + 1] === "\"") { field += "\""; i++; }
+      else if (c === "\"") quoted = false;
+      else field += c;
+    } else if (c === "\"") {
+      quoted = true;
+    } else if (c === ",") {
+      record.push(field);
+      field = "";
+    } else if (c === "\n" || c === "\r") {
+      if (c === "\r" && text[i + 1] === "\n") i++;
+      record.push(field);
+      if (record.some((f) => f.trim())) records.push(record);
+      record = [];
+      field = "";
+    } else {
+      field += c;
+    }
+  }
+  record.push(field);
+  if (record.some((f) => f.trim())) records.push(record);
+  return records;
+}
+
+/**
+ * Form values from one imported record; unknown keys are ignored and missing
+ * fields are left empty for validation to report
+ */
+function importValues(record: Record<string, unknown>): VehicleFormValues {
+  const byKey = new Map(Object.keys(record).map((k) => [fieldKey(k), record[k]] as [string, unknown]));
+  const get = (field: keyof VehicleFormValues) => {
+    const key = FIELD_ALIASES[field].find((k) => byKey.has(k));
+    const value = key === undefined ? undefined : byKey.get(key);
+    return value === undefined || value === null ? "" : String(value).trim();
+  };
+
+  const empty = emptyVehicleForm();
+  return {
+    registrationNumber: get("registrationNumber"),
+    vehicleType: get("vehicleType") ? formVehicleType(get("vehicleType")) : empty.vehicleType,
+    year: get("year") ? Number(get("year")) : NaN,
+    make: get("make"),
+    model: get("model"),
+    estimatedValue: get("estimatedValue").replace(/,/g, ""),
+    currency: get("currency").toUpperCase() || empty.currency,
+  };
+}
+
+/**
+ * Records of an import file, keyed by their row number
+ * @throws Error when the file is not CSV / JSON or has no vehicle records
+ */
+function importRecords(filename: string, text: string): { row: number; record: Record<string, unknown> }[] {
+  if (/\.json$/i.test(filename) || /^\s*[[{]/.test(text)) {
+    let data: any;
+    try { data = JSON.parse(text); } catch { throw new Error("The file is not valid JSON"); }
+    const list = Array.isArray(data) ? data : Array.isArray(data?.vehicles) ? data.vehicles : Array.isArray(data?.list) ? data.list : null;
+    if (!list) throw new Error("The JSON file has no vehicles array");
+    // An exported file nests each vehicle next to its policies
+    return list.map((item: any, index: number) => ({
+      row: index + 1,
+      record: item && typeof item === "object" ? (item.vehicle && typeof item.vehicle === "object" ? item.vehicle : item) : {},
+    }));
+  }
+
+  const [header, ...rows] = parseCsv(text);
+  if (!header || !header.some((h) => FIELD_ALIASES.registrationNumber.includes(fieldKey(h)))) {
+    throw new Error("The CSV file needs a header row with a registrationNumber column");
+  }
+  return rows.map((cells, index) => ({
+    row: index + 2,
+    record: Object.fromEntries(header.map((h, i) => [h, cells[i] ?? ""])),
+  }));
+}
+
+/**
+ * Read and validate an import file. Rows are checked against the account's
+ * vehicles and the rows before them, so a duplicate is reported once.
+ * @throws Error when the file cannot be read as vehicles at all
+ */
+export function parseVehicleImport(filename: string, text: string, existing: Vehicle[]): ImportRow[] {
+  const records = importRecords(filename, text.replace(/^\uFEFF/, ""));
+  if (!records.length) throw new Error("The file has no vehicles");
+
+  const seen: Vehicle[] = [...existing];
+  return records.map(({ row, record }) => {
+    const values = importValues(record);
+    const errors = validateVehicleForm(values, seen);
+    if (!Object.keys(errors).length) {
+      // Stand-in so later rows with the same registration are caught as duplicates
+      seen.push({ vehicleId: `import-${row}`, registrationNumber: normalizeRegistration(values.registrationNumber)! } as Vehicle);
+    }
+    return { row, values, errors };
+  });
+}
+
+/**
+ * Quote a CSV cell; text that a spreadsheet would run as a formula is prefixed with '
+ */
+function csvCell(value: unknown): string {
+  if (value === undefined || value === null) return "";
+  let text = String(value);
+  if (typeof value === "string" && /^[=+\-@\t\r]/.test(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, "\"\"")}"` : text;
+}
+
+export function vehiclesToCsv(rows: VehicleExport[]): string {
+  const lines = [EXPORT_COLUMNS.join(",")];
+  rows.forEach(({ vehicle, policies }) => {
+    const base = [
+      vehicle.vehicleId, vehicle.registrationNumber, vehicle.make, vehicle.model, vehicle.type,
+      vehicle.manufactureYear, vehicle.estimatedValue, vehicle.currency,
+      vehicle.insuranceStatus.isInsured, vehicle.insuranceStatus.insuredUntil,
+    ];
+    const policyRows = policies.length
+      ? policies.map((p) => [p.policyNumber, p.status, p.coverage, p.startDate, p.endDate, p.premium])
+      : [[]];
+    policyRows.forEach((p) => lines.push([...base, ...p, ...new Array(6 - p.length).fill("")].map(csvCell).join(",")));
+  });
+  return lines.join("\r\n") + "\r\n";
+}
+
+export function vehiclesToJson(rows: VehicleExport[], exportedAt = new Date()): string {
+  return JSON.stringify({ exportedAt: exportedAt.toISOString(), vehicles: rows }, null, 2);
+}
+
+/**
+ * File name for an export made today, e.g. vehicles-2025-06-01.csv
+ */
+export function exportFilename(format: "csv" | "json", now = new Date()): string {
+  return `vehicles-${now.toISOString().slice(0, 10)}.${format}`;
+}